@@ -0,0 +1,380 @@
+#!/usr/bin/env node
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { extname } from 'path';
+import { createInterface } from 'readline';
+import { HMMMError, compile, disassemble as disassembleBinary, formatError, parseBinaryInstruction } from '../../hmmm-spec/out/hmmm';
+import { HMMMInputRequest, HMMMRuntime, defaultRuntimeSettings } from './runtime';
+import { formatTestResult, getProgramForTestFile, getTestFileForProgram, isTestFile, loadTestSuite, runTestSuite } from './testing';
+
+//#region Exit Codes
+
+/**
+ * The exit codes used by the CLI
+ */
+enum ExitCode {
+	/**
+	 * The command completed successfully
+	 */
+	SUCCESS = 0,
+	/**
+	 * The input file contains errors (ex. assembly errors or invalid binary instructions)
+	 */
+	INVALID_PROGRAM = 1,
+	/**
+	 * The command was used incorrectly (ex. unknown command, missing arguments, or an unreadable file)
+	 */
+	USAGE_ERROR = 2,
+	/**
+	 * The program encountered an error while running (ex. an invalid instruction or memory access)
+	 */
+	RUNTIME_ERROR = 3,
+	/**
+	 * At least one test case failed
+	 */
+	TESTS_FAILED = 4,
+}
+
+/**
+ * The usage information printed by the help command
+ */
+const usage = `Usage: hmmm <command> [options]
+
+Commands:
+  assemble <file.hmmm> [-o <file.hb>]     Compile HMMM assembly to HMMM binary
+  disassemble <file.hb> [-o <file.hmmm>]  Convert HMMM binary to HMMM assembly
+  run <file>                              Run a HMMM assembly or binary program (read/write use stdin/stdout)
+  check <file...>                         Validate HMMM files and print any errors as JSON
+  test <file...>                          Run the test cases in each program's .test.json file (or the given test files)
+  help                                    Show this message
+
+Files ending in .hb are treated as HMMM binary. All other files are treated as HMMM assembly.
+If no output file is given, output is written to stdout.
+
+Exit codes:
+  0  Success
+  1  The input contains errors
+  2  The command was used incorrectly
+  3  The program encountered an error while running
+  4  At least one test case failed`;
+
+//#endregion
+
+//#region Helpers
+
+/**
+ * An error which indicates that the CLI was used incorrectly. These are reported without a stack trace
+ */
+class UsageError extends Error { }
+
+/**
+ * Reads a file and splits it into lines
+ * @param file The path to the file
+ * @returns The lines of the file
+ * @throws UsageError if the file does not exist
+ */
+function readLines(file: string): string[] {
+	if (!existsSync(file)) throw new UsageError(`File not found: ${file}`);
+	return readFileSync(file).toString().split('\n').map(line => line.replace(/\r$/, '')); // Support files with CRLF line endings
+}
+
+/**
+ * Writes the given lines to a file (or stdout if no file is given)
+ * @param lines The lines to write
+ * @param file The path to the file or undefined to write to stdout
+ */
+function writeLines(lines: string[], file: string | undefined) {
+	const text = lines.join('\n') + '\n'; // Add an extra newline at the end of the file
+	if (file) writeFileSync(file, text);
+	else process.stdout.write(text);
+}
+
+/**
+ * Determines the language of a file from its extension
+ * @param file The path to the file
+ * @returns 'hb' if the file is a HMMM binary file, 'hmmm' otherwise
+ */
+function getLanguage(file: string): 'hb' | 'hmmm' {
+	return extname(file).toLowerCase() === '.hb' ? 'hb' : 'hmmm';
+}
+
+/**
+ * Splits the arguments to a command into positional arguments and the value of the output (-o) option
+ * @param args The arguments to the command
+ * @returns The positional arguments and the output file (if one was given)
+ * @throws UsageError if an unknown option is given or -o is missing its value
+ */
+function parseArguments(args: string[]): [string[], string | undefined] {
+	const positional: string[] = [];
+	let output: string | undefined = undefined;
+
+	for (let i = 0; i < args.length; i++) {
+		if (args[i] === '-o' || args[i] === '--output') {
+			output = args[++i];
+			if (output === undefined) throw new UsageError(`${args[i - 1]} requires a file`);
+		} else if (args[i].startsWith('-') && args[i] !== '-') {
+			throw new UsageError(`Unknown option: ${args[i]}`);
+		} else {
+			positional.push(args[i]);
+		}
+	}
+
+	return [positional, output];
+}
+
+/**
+ * Gets the single input file passed to a command
+ * @param command The name of the command
+ * @param positional The positional arguments passed to the command
+ * @returns The input file
+ * @throws UsageError if there is not exactly one input file
+ */
+function getInputFile(command: string, positional: string[]): string {
+	if (positional.length !== 1) throw new UsageError(`${command} expects exactly one input file`);
+	return positional[0];
+}
+
+/**
+ * Validates HMMM binary code. Every non-empty line must be a valid instruction
+ * @param code The code to validate (one entry per line)
+ * @returns A list of all errors found in the code
+ */
+function validateBinary(code: string[]): HMMMError[] {
+	const errors: HMMMError[] = [];
+
+	code.forEach((line, i) => {
+		if (!line.trim()) return; // Skip empty lines
+
+		if (!parseBinaryInstruction(line)) {
+			errors.push({ code: 'invalid_instruction', message: 'Invalid Instruction', severity: 'error', line: i, startColumn: 0, endColumn: line.length });
+		}
+	});
+
+	return errors;
+}
+
+/**
+ * Validates a file in the given language
+ * @param code The code to validate (one entry per line)
+ * @param language The language of the code
+ * @returns A list of all errors and warnings found in the code
+ */
+function validate(code: string[], language: 'hb' | 'hmmm'): HMMMError[] {
+	return language === 'hb' ? validateBinary(code) : compile(code).errors;
+}
+
+/**
+ * Prints a list of errors to stderr
+ * @param file The file the errors were found in
+ * @param errors The errors to print
+ */
+function printErrors(file: string, errors: HMMMError[]) {
+	errors.forEach(error => console.error(`${file}:${formatError(error)}`));
+}
+
+//#endregion
+
+//#region Commands
+
+/**
+ * Compiles a HMMM assembly file to HMMM binary
+ * @param args The arguments to the command
+ * @returns The exit code
+ */
+function assemble(args: string[]): ExitCode {
+	const [positional, output] = parseArguments(args);
+	const file = getInputFile('assemble', positional);
+
+	const { binary, errors } = compile(readLines(file));
+
+	// Report warnings even if the file compiled successfully
+	printErrors(file, errors);
+
+	if (!binary) return ExitCode.INVALID_PROGRAM;
+
+	writeLines(binary, output);
+	return ExitCode.SUCCESS;
+}
+
+/**
+ * Converts a HMMM binary file to HMMM assembly
+ * @param args The arguments to the command
+ * @returns The exit code
+ */
+function disassemble(args: string[]): ExitCode {
+	const [positional, output] = parseArguments(args);
+	const file = getInputFile('disassemble', positional);
+
+	const code = readLines(file);
+
+	// Lines which can't be decoded are kept as data or comments, so they can be fixed in the assembly
+	writeLines(disassembleBinary(code), output);
+
+	// Still report the lines which aren't valid instructions, so a broken binary isn't mistaken for a valid one
+	const errors = validateBinary(code);
+	printErrors(file, errors);
+	return errors.length ? ExitCode.INVALID_PROGRAM : ExitCode.SUCCESS;
+}
+
+/**
+ * Runs a HMMM program, using stdin/stdout for read and write instructions
+ * @param args The arguments to the command
+ * @returns A promise which resolves to the exit code once the program ends
+ */
+function run(args: string[]): Promise<ExitCode> {
+	const [positional] = parseArguments(args);
+	const file = getInputFile('run', positional);
+
+	if (!existsSync(file)) throw new UsageError(`File not found: ${file}`);
+
+	// Read input for read instructions from stdin one line at a time
+	const stdin = createInterface({ input: process.stdin, terminal: false });
+	const inputLines = stdin[Symbol.asyncIterator]();
+
+	/**
+	 * Reads the next line of input from stdin
+	 * @param request The request made by the runtime
+	 * @returns The next line of input or undefined if stdin has been closed
+	 */
+	async function readInput(request: HMMMInputRequest): Promise<string | undefined> {
+		// Only prompt if a user is typing the input
+		if (process.stdin.isTTY) process.stderr.write(`Enter a number to store into r${request.register}: `);
+
+		const { value, done } = await inputLines.next();
+		return done ? undefined : value;
+	}
+
+	const runtime = new HMMMRuntime(readInput, message => console.error(message));
+
+	const language = getLanguage(file);
+
+	// Nothing will ever set breakpoints, step backwards, or inspect the stack, so run without debugging
+	// Division by zero terminates the program (like it does in the reference HMMM simulator), since there is no debugger to report it to
+	if (!runtime.configure(file, language, { ...defaultRuntimeSettings, divideByZeroIsCritical: true }, true)) {
+		printErrors(file, language === 'hb' ? validateBinary(readLines(file)) : runtime.compilationErrors);
+		stdin.close();
+		return Promise.resolve(ExitCode.INVALID_PROGRAM);
+	}
+
+	return new Promise(resolve => {
+		// Whether the program printed an error (ex. an invalid instruction) before it ended
+		let hadRuntimeError = false;
+
+		runtime.on('output', (text: string, category: string) => {
+			if (category === 'stdout') {
+				console.log(text);
+			} else if (category === 'stderr') {
+				hadRuntimeError = true;
+				console.error(text);
+			}
+			// Anything else is debugger output, which doesn't make sense outside of a debug session
+		});
+
+		runtime.on('end', () => {
+			stdin.close();
+			resolve(hadRuntimeError ? ExitCode.RUNTIME_ERROR : ExitCode.SUCCESS);
+		});
+
+		runtime.continue();
+	});
+}
+
+/**
+ * Validates HMMM files and prints the results as JSON
+ * @param args The arguments to the command
+ * @returns The exit code
+ */
+function check(args: string[]): ExitCode {
+	const [files] = parseArguments(args);
+
+	if (!files.length) throw new UsageError('check expects at least one input file');
+
+	const results = files.map(file => ({ file, errors: validate(readLines(file), getLanguage(file)) }));
+
+	console.log(JSON.stringify(results, undefined, 2));
+
+	// Only fail if there are errors (warnings don't prevent the program from being compiled)
+	return results.some(result => result.errors.some(error => error.severity === 'error')) ? ExitCode.INVALID_PROGRAM : ExitCode.SUCCESS;
+}
+
+/**
+ * Runs the test cases for HMMM programs and prints the results
+ * @param args The arguments to the command
+ * @returns A promise which resolves to the exit code once every test case has run
+ */
+async function test(args: string[]): Promise<ExitCode> {
+	const [files] = parseArguments(args);
+
+	if (!files.length) throw new UsageError('test expects at least one program or test file');
+
+	let exitCode = ExitCode.SUCCESS;
+	let passed = 0;
+	let failed = 0;
+
+	for (const file of files) {
+		// Either the program or its test file can be given
+		const testFile = isTestFile(file) ? file : getTestFileForProgram(file);
+		const program = isTestFile(file) ? getProgramForTestFile(file) : file;
+
+		if (!program || !existsSync(program)) throw new UsageError(`No program found for ${file}`);
+
+		const { suite, error } = loadTestSuite(testFile);
+		if (!suite) {
+			console.error(`${testFile}: ${error}`);
+			exitCode = ExitCode.INVALID_PROGRAM;
+			continue;
+		}
+
+		console.log(program);
+		for (const result of await runTestSuite(program, suite)) {
+			formatTestResult(result).forEach(line => console.log(`  ${line}`));
+			if (result.passed) passed++;
+			else failed++;
+		}
+	}
+
+	console.log(`\n${passed} passed, ${failed} failed`);
+
+	// Invalid test files take priority, since the results are incomplete
+	return exitCode === ExitCode.SUCCESS && failed ? ExitCode.TESTS_FAILED : exitCode;
+}
+
+//#endregion
+
+/**
+ * Runs the CLI with the given arguments
+ * @param args The command line arguments (excluding the node executable and script path)
+ * @returns A promise which resolves to the exit code
+ */
+async function main(args: string[]): Promise<ExitCode> {
+	const [command, ...commandArgs] = args;
+
+	try {
+		switch (command) {
+			case 'assemble':
+				return assemble(commandArgs);
+			case 'disassemble':
+				return disassemble(commandArgs);
+			case 'run':
+				return await run(commandArgs);
+			case 'check':
+				return check(commandArgs);
+			case 'test':
+				return await test(commandArgs);
+			case 'help':
+			case '--help':
+			case '-h':
+				console.log(usage);
+				return ExitCode.SUCCESS;
+			default:
+				throw new UsageError(command ? `Unknown command: ${command}` : 'No command given');
+		}
+	} catch (e) {
+		if (!(e instanceof UsageError)) throw e;
+
+		console.error(`hmmm: ${e.message}\n\n${usage}`);
+		return ExitCode.USAGE_ERROR;
+	}
+}
+
+main(process.argv.slice(2)).then(exitCode => process.exitCode = exitCode);
@@ -0,0 +1,127 @@
+//#region Types
+
+/**
+ * The number of times each direction of a conditional jump (jeqzn, jnezn, jgtzn, or jltzn) was taken
+ */
+export interface HMMMBranchCoverage {
+	/**
+	 * The number of times the jump was taken
+	 */
+	taken: number;
+	/**
+	 * The number of times the jump was not taken (execution continued with the next instruction)
+	 */
+	notTaken: number;
+}
+
+/**
+ * The coverage of a single source line which contains an instruction
+ */
+export interface HMMMLineCoverage {
+	/**
+	 * The (zero-based) source line
+	 */
+	line: number;
+	/**
+	 * The address of the instruction on the line
+	 */
+	address: number;
+	/**
+	 * The number of times the instruction was executed
+	 */
+	count: number;
+	/**
+	 * The directions taken by the instruction (only defined if the instruction is a conditional jump)
+	 */
+	branch?: HMMMBranchCoverage;
+}
+
+/**
+ * The coverage of a program. Contains an entry for every instruction in the program (whether or not it was executed)
+ */
+export interface HMMMCoverage {
+	/**
+	 * The coverage of each line which contains an instruction (in order of address)
+	 */
+	lines: HMMMLineCoverage[];
+}
+
+/**
+ * How much of a line was exercised
+ * - covered: The instruction was executed (and if it is a conditional jump, both directions were taken)
+ * - partial: The instruction is a conditional jump which was executed, but only ever went in one direction
+ * - uncovered: The instruction was never executed
+ */
+export type HMMMCoverageStatus = 'covered' | 'partial' | 'uncovered';
+
+//#endregion
+
+//#region Coverage
+
+/**
+ * Determines whether an instruction is a conditional jump, so that the directions it takes should be recorded
+ * @param instructionName The name of the instruction
+ * @returns true if the instruction is jeqzn, jnezn, jgtzn, or jltzn, false otherwise
+ */
+export function isConditionalJump(instructionName: string): boolean {
+	return ['jeqzn', 'jnezn', 'jgtzn', 'jltzn'].includes(instructionName);
+}
+
+/**
+ * Determines how much of a line was exercised
+ * @param line The coverage of the line
+ * @returns The status of the line
+ */
+export function getCoverageStatus(line: HMMMLineCoverage): HMMMCoverageStatus {
+	if (!line.count) return 'uncovered';
+	if (line.branch && (!line.branch.taken || !line.branch.notTaken)) return 'partial';
+	return 'covered';
+}
+
+/**
+ * Describes the coverage of a line (ex. `Executed 3 times (jump taken 2 times, not taken once)`)
+ * @param line The coverage of the line
+ * @returns The description
+ */
+export function describeLineCoverage(line: HMMMLineCoverage): string {
+	const times = (count: number) => count === 1 ? 'once' : `${count} times`;
+
+	const description = line.count ? `Executed ${times(line.count)}` : 'Never executed';
+	return line.branch ? `${description} (jump taken ${times(line.branch.taken)}, not taken ${times(line.branch.notTaken)})` : description;
+}
+
+//#endregion
+
+//#region Formatting
+
+/**
+ * Formats the coverage of a program as an LCOV tracefile, which can be read by most coverage tools.
+ * Each conditional jump is reported as a block with two branches: the jump being taken (0) and not taken (1)
+ * @param coverage The coverage of the program
+ * @param sourceFile The path to the program
+ * @returns The tracefile (ending with a newline)
+ */
+export function formatLCOV(coverage: HMMMCoverage, sourceFile: string): string {
+	// LCOV uses one-based line numbers
+	const lines = ['TN:', `SF:${sourceFile}`];
+
+	const branches = coverage.lines.filter(line => line.branch);
+	for (const { line, count, branch } of branches) {
+		// Branches on lines which were never executed are reported as '-' rather than 0
+		lines.push(`BRDA:${line + 1},0,0,${count ? branch!.taken : '-'}`);
+		lines.push(`BRDA:${line + 1},0,1,${count ? branch!.notTaken : '-'}`);
+	}
+	lines.push(`BRF:${branches.length * 2}`);
+	lines.push(`BRH:${branches.reduce((hit, { branch }) => hit + (branch!.taken ? 1 : 0) + (branch!.notTaken ? 1 : 0), 0)}`);
+
+	for (const { line, count } of coverage.lines) {
+		lines.push(`DA:${line + 1},${count}`);
+	}
+	lines.push(`LF:${coverage.lines.length}`);
+	lines.push(`LH:${coverage.lines.filter(line => line.count).length}`);
+
+	lines.push('end_of_record');
+	return lines.join('\n') + '\n';
+}
+
+//#endregion
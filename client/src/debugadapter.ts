@@ -4,9 +4,11 @@ import {
 	BreakpointEvent,
 	DebugSession,
 	ErrorDestination,
+	Event,
 	Handles,
 	InitializedEvent,
 	InvalidatedEvent,
+	MemoryEvent,
 	OutputEvent,
 	Source,
 	StoppedEvent,
@@ -14,10 +16,17 @@ import {
 	Thread
 } from '@vscode/debugadapter';
 import { DebugProtocol } from '@vscode/debugprotocol';
-import { basename } from 'path';
-import { workspace } from 'vscode';
-import { decompileInstruction, formatBinaryNumber, strictParseInt } from '../../hmmm-spec/out/hmmm';
-import { HMMMRuntime, s16IntToNumber } from './runtime';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { basename, dirname, resolve } from 'path';
+import { InputBoxOptions, window, workspace } from 'vscode';
+import { decompileInstruction, formatBinaryNumber, formatError, strictParseInt } from '../../hmmm-spec/out/hmmm';
+import { HMMMCoverage, formatLCOV } from './coverage';
+import { compileExpression, compileMemoryRange } from './expressions';
+import { readMemoryBytes, removeDuplicates, s16IntToNumber, sliceWithCount, writeMemoryBytes } from './helperfunctions';
+import { HMMMProfile, formatProfileSummary } from './profiler';
+import { HMMMInputRequest, HMMMRuntime, HMMMRuntimeSettings } from './runtime';
+import { createSnapshot, parseSnapshot } from './snapshot';
+import { HMMMTraceFormat, formatTrace, getTraceFormat } from './trace';
 
 import { relative } from 'path';
 
@@ -31,28 +40,95 @@ interface LaunchRequestArguments extends DebugProtocol.LaunchRequestArguments {
 	/** An absolute path to the program to debug. */
 	program: string;
 	isBinary: boolean;
+	/** Values to use as the input to read instructions (before prompting the user). */
+	input?: number[];
+	/** A path to a file containing values (separated by whitespace) to use as the input to read instructions (after those in input). */
+	inputFile?: string;
+	/** The first address of the stack used by pushr and popr (defaults to the address after the program). */
+	stackBase?: number;
+	/** The first address past the end of the stack used by pushr and popr (defaults to 256). */
+	stackLimit?: number;
+	/** A path to a file to write the execution trace to when the program ends (.csv files are written as CSV, all others as JSON Lines). */
+	traceFile?: string;
+	/** A path to a file to write the coverage of the program to (as an LCOV tracefile) when the program ends. */
+	coverageFile?: string;
+	/** The maximum number of instructions the program can execute before a step-limit exception is thrown (overrides hmmm.debugging.maxSteps). */
+	maxSteps?: number;
+	/** Whether division by zero terminates the program (overrides hmmm.debugging.divideByZeroIsCritical). */
+	divideByZeroIsCritical?: boolean;
+	/** Whether to detect infinite loops (overrides hmmm.debugging.detectInfiniteLoops). */
+	detectInfiniteLoops?: boolean;
+	/** A path to a snapshot file (saved by the HMMM: Save Snapshot command) to restore the state of the machine from before starting. */
+	snapshot?: string;
 }
 
 /**
- * Perform a slice on an array with a start and count.
- * @param array The array to slice
- * @param start The start index or undefined to start at 0
- * @param count The number of elements to slice or undefined to slice to the end of the array
- * @returns The sliced array
+ * The arguments to the custom exportTrace request (sent by the HMMM: Export Execution Trace command)
  */
-export function sliceWithCount<T>(array: T[], start: number = 0, count: number = array.length): T[] {
-	return array.slice(start, start + count);
+export interface ExportTraceArguments {
+	/** An absolute path to the file to write the trace to. */
+	path: string;
+	/** The format to write the trace in. */
+	format: HMMMTraceFormat;
 }
 
 /**
- * A filter function that removes duplicates from an array. (Copied from https://stackoverflow.com/a/14438954)
- * @param value The value to check
- * @param index The index of the value in the array
- * @param array The array to filter from
- * @returns True if the value at the given index is the first occurrence of the value in the array; false otherwise
+ * The arguments to the custom saveSnapshot request (sent by the HMMM: Save Snapshot command)
  */
-export function removeDuplicates<T>(value: T, index: number, array: T[]): boolean {
-	return array.indexOf(value) === index;
+export interface SaveSnapshotArguments {
+	/** An absolute path to the file to write the snapshot to. */
+	path: string;
+}
+
+/**
+ * The body of the custom profile event, which is sent to the extension when the program ends
+ */
+export interface ProfileEventBody {
+	/** The path to the program (in the client's format). */
+	path: string;
+	/** The profile of the program. */
+	profile: HMMMProfile;
+}
+
+/**
+ * The body of the custom coverage event, which is sent to the extension when the program ends
+ */
+export interface CoverageEventBody {
+	/** The path to the program (in the client's format). */
+	path: string;
+	/** The coverage of the program. */
+	coverage: HMMMCoverage;
+}
+
+/**
+ * Prompts the user for the input to a read instruction using a VSCode input box
+ * @param request The request made by the runtime
+ * @returns The text entered by the user or undefined if the input box was dismissed
+ */
+async function promptForInput(request: HMMMInputRequest): Promise<string | undefined> {
+	return await window.showInputBox(<InputBoxOptions>{
+		placeHolder: `Enter a number to store into r${request.register}`,
+		prompt: 'You can also type any non-numerical text to terminate the program.',
+		title: `HMMM: ${request.address} ${request.instruction}`
+	});
+}
+
+/**
+ * Reads the runtime settings set by the user from the VSCode workspace configuration
+ * @returns The runtime settings
+ */
+function getRuntimeSettings(): HMMMRuntimeSettings {
+	const debuggingSettings = workspace.getConfiguration('hmmm.debugging');
+	return {
+		enableReverseExecution: debuggingSettings.get<boolean>('enableReverseExecution', false),
+		reverseExecutionDepth: debuggingSettings.get<number>('reverseExecutionDepth', 0),
+		enableStackFrames: debuggingSettings.get<boolean>('enableStackFrames', false),
+		stackFrameDepth: debuggingSettings.get<number>('stackFrameDepth', 0),
+		divideByZeroIsCritical: debuggingSettings.get<boolean>('divideByZeroIsCritical', false),
+		traceLength: debuggingSettings.get<number>('traceLength', 0),
+		maxSteps: debuggingSettings.get<number>('maxSteps', 0),
+		detectInfiniteLoops: debuggingSettings.get<boolean>('detectInfiniteLoops', false)
+	};
 }
 
 /**
@@ -65,6 +141,11 @@ export class HMMMDebugSession extends DebugSession {
 	 */
 	private static THREAD_ID = 1;
 
+	/**
+	 * The size of HMMM memory in bytes (256 16-bit words) as it is presented to the memory inspector
+	 */
+	private static MEMORY_SIZE_BYTES = 512;
+
 	/**
 	 * The callback that is called when the configuration is done and the program can be started.
 	 */
@@ -85,6 +166,21 @@ export class HMMMDebugSession extends DebugSession {
 	 */
 	private _variableHandles = new Handles<string>();
 
+	/**
+	 * The remaining scripted input values (from the launch configuration) which will be used by read instructions before prompting the user
+	 */
+	private _scriptedInput: string[] = [];
+
+	/**
+	 * The file to write the execution trace to when the program ends (if one was given in the launch configuration)
+	 */
+	private _traceFile: string | undefined = undefined;
+
+	/**
+	 * The file to write the coverage of the program to when the program ends (if one was given in the launch configuration)
+	 */
+	private _coverageFile: string | undefined = undefined;
+
 	//#region Lifecycle
 
 	/**
@@ -97,7 +193,8 @@ export class HMMMDebugSession extends DebugSession {
 		this.setDebuggerLinesStartAt1(false);
 		this.setDebuggerColumnsStartAt1(false);
 
-		this._runtime = new HMMMRuntime();
+		// Read input (when no scripted input is left) and report errors using the VSCode UI
+		this._runtime = new HMMMRuntime(this.provideInput.bind(this), message => window.showErrorMessage(message));
 
 		// setup event handlers
 		this._runtime.on('stop', (event: string) => {
@@ -119,6 +216,21 @@ export class HMMMDebugSession extends DebugSession {
 			this.sendEvent(e);
 		});
 		this._runtime.on('end', () => {
+			// Write the trace and coverage before terminating, so they are available as soon as the session ends
+			if (this._traceFile) this.writeTrace(this._traceFile, getTraceFormat(this._traceFile));
+			if (this._coverageFile && this._source?.path) this.writeOutputFile(this._coverageFile, formatLCOV(this._runtime.coverage, this._source.path), 'coverage');
+
+			// Summarize the work done by the program
+			const e: DebugProtocol.OutputEvent = new OutputEvent(`Profile: ${formatProfileSummary(this._runtime.profile)}\n`);
+			e.body.category = 'console';
+			this.sendEvent(e);
+
+			// Send the profile and coverage to the extension, so it can show them in the editor
+			if (this._source?.path) {
+				this.sendEvent(new Event('profile', <ProfileEventBody>{ path: this._source.path, profile: this._runtime.profile }));
+				this.sendEvent(new Event('coverage', <CoverageEventBody>{ path: this._source.path, coverage: this._runtime.coverage }));
+			}
+
 			this.sendEvent(new TerminatedEvent());
 		});
 	}
@@ -141,13 +253,20 @@ export class HMMMDebugSession extends DebugSession {
 		response.body.supportsStepBack = debuggingSettings.get('enableReverseExecution', false);
 
 		// Breakpoint Capabilities
+		response.body.supportsConditionalBreakpoints = true;
 		response.body.supportsDataBreakpoints = true;
+		response.body.supportsHitConditionalBreakpoints = true;
+		response.body.supportsInstructionBreakpoints = true;
+		response.body.supportsLogPoints = true;
 
 		// Stack/Variable Capabilities
 		response.body.supportsDelayedStackTraceLoading = true;
+		response.body.supportsDisassembleRequest = true;
+		response.body.supportsReadMemoryRequest = true;
 		response.body.supportsEvaluateForHovers = true;
 		response.body.supportsRestartFrame = true;
 		response.body.supportsSetVariable = true;
+		response.body.supportsWriteMemoryRequest = true;
 		response.body.supportsValueFormattingOptions = true;
 
 		// Exception Capabilities
@@ -182,6 +301,48 @@ export class HMMMDebugSession extends DebugSession {
 				label: 'Execute Outside Code Segment',
 				default: true,
 				description: 'Breaks if the program attempts to execute an instruction outside of the code segment.'
+			},
+			{
+				filter: 'arithmetic-overflow',
+				label: 'Arithmetic Overflow',
+				default: true,
+				description: 'Breaks if the result of an arithmetic instruction does not fit in a register (outside of -32768 to 32767).'
+			},
+			{
+				filter: 'divide-by-zero',
+				label: 'Divide by Zero',
+				default: true,
+				description: 'Breaks if a div or mod instruction divides by zero. (If hmmm.debugging.divideByZeroIsCritical is enabled, this exception is critical and terminates the program.)'
+			},
+			{
+				filter: 'stack-overflow',
+				label: 'Stack Overflow',
+				default: false,
+				description: 'Breaks if a pushr instruction pushes past the end of the stack (set by the stackLimit launch attribute).'
+			},
+			{
+				filter: 'stack-underflow',
+				label: 'Stack Underflow',
+				default: false,
+				description: 'Breaks if a popr instruction pops from before the start of the stack (set by the stackBase launch attribute).'
+			},
+			{
+				filter: 'uninitialized-read',
+				label: 'Uninitialized Read',
+				default: false,
+				description: 'Breaks if an instruction reads from a register or memory address which has not been written to since the program started.'
+			},
+			{
+				filter: 'step-limit',
+				label: 'Step Limit',
+				default: true,
+				description: 'Breaks once the program has executed the maximum number of instructions (set by hmmm.debugging.maxSteps or the maxSteps launch attribute). Continuing allows the same number of instructions again.'
+			},
+			{
+				filter: 'infinite-loop',
+				label: 'Infinite Loop',
+				default: true,
+				description: 'Breaks if the machine returns to exactly the same state (instruction pointer, registers, and memory) without reading input, which means that it will never halt. (Requires hmmm.debugging.detectInfiniteLoops.)'
 			}
 		];
 
@@ -211,13 +372,70 @@ export class HMMMDebugSession extends DebugSession {
 		// Create a source object for the program so that it can be sent to the frontend when needed
 		this._source = this.createSource(program);
 
+		// Load any scripted input for read instructions
+		this._scriptedInput = (args.input ?? []).map(value => value.toString());
+		if (args.inputFile) {
+			// Relative paths are resolved relative to the program
+			const inputFile = resolve(dirname(program), this.convertClientPathToDebugger(args.inputFile));
+
+			if (!existsSync(inputFile)) {
+				this.sendErrorResponse(response, 2, `Input file not found: ${inputFile}`, undefined, ErrorDestination.User);
+				return;
+			}
+
+			this._scriptedInput.push(...readFileSync(inputFile).toString().split(/\s+/).filter(value => value));
+		}
+
+		// Relative paths are resolved relative to the program (the file doesn't need to exist yet)
+		this._traceFile = args.traceFile ? resolve(dirname(program), this.convertClientPathToDebugger(args.traceFile)) : undefined;
+		this._coverageFile = args.coverageFile ? resolve(dirname(program), this.convertClientPathToDebugger(args.coverageFile)) : undefined;
+
+		// The launch configuration can override some of the settings (ex. so that a test case is debugged the same way it is run)
+		const settings = getRuntimeSettings();
+		if (args.divideByZeroIsCritical !== undefined) settings.divideByZeroIsCritical = args.divideByZeroIsCritical;
+		if (args.detectInfiniteLoops !== undefined) settings.detectInfiniteLoops = args.detectInfiniteLoops;
+
 		// Attempt to configure the runtime for the program
-		if (!this._runtime.configure(program, args.isBinary ? 'hb' : 'hmmm')) {
+		// If the user chose to run without debugging, the runtime can skip all of its debugging bookkeeping
+		if (!this._runtime.configure(program, args.isBinary ? 'hb' : 'hmmm', settings, args.noDebug ?? false)) {
 			// The runtime failed to configure due to a build error
-			this.sendErrorResponse(response, 1, 'Program contains errors! Please fix them before debugging.', undefined, ErrorDestination.User);
+			// List the errors reported by the assembler (if any), so the user knows exactly what to fix
+			const errors = this._runtime.compilationErrors.map(formatError).join('\n');
+			this.sendErrorResponse(response, 1, `Program contains errors! Please fix them before debugging.${errors ? `\n${errors}` : ''}`, undefined, ErrorDestination.User);
+			return;
+		}
+
+		// The default stack region depends on the size of the program, so it can only be set once the program is loaded
+		if (!this._runtime.setStackRegion(args.stackBase, args.stackLimit)) {
+			this.sendErrorResponse(response, 3, `Invalid stack region: stackBase must be at least 0 and less than stackLimit, which must be at most 256 (stackBase defaults to ${this._runtime.numInstructions}, the address after the program)`, undefined, ErrorDestination.User);
+			return;
+		}
+
+		// The launch configuration overrides the limit set in the settings (which was applied when the runtime was configured)
+		if (args.maxSteps !== undefined && !this._runtime.setMaxSteps(args.maxSteps)) {
+			this.sendErrorResponse(response, 8, 'Invalid maxSteps: must be a non-negative integer (0 for no limit)', undefined, ErrorDestination.User);
 			return;
 		}
 
+		// Restore the snapshot last, so that the step limit applies to the instructions executed after it
+		if (args.snapshot) {
+			// Relative paths are resolved relative to the program
+			const snapshotFile = resolve(dirname(program), this.convertClientPathToDebugger(args.snapshot));
+
+			if (!existsSync(snapshotFile)) {
+				this.sendErrorResponse(response, 9, `Snapshot file not found: ${snapshotFile}`, undefined, ErrorDestination.User);
+				return;
+			}
+
+			const { state, error } = parseSnapshot(readFileSync(snapshotFile).toString());
+			if (!state) {
+				this.sendErrorResponse(response, 9, `Invalid snapshot file ${snapshotFile}: ${error}`, undefined, ErrorDestination.User);
+				return;
+			}
+
+			this._runtime.restoreState(state);
+		}
+
 		// Acknowledge that the launch request has been received and processed successfully
 		this.sendResponse(response);
 
@@ -225,7 +443,10 @@ export class HMMMDebugSession extends DebugSession {
 		this._onConfigurationDone = function () {
 			this._onConfigurationDone = undefined;
 
-			this._runtime.continue();
+			// A snapshot is usually restored to inspect the state it was saved in, so pause instead of running past it
+			// (unless running without debugging, where there is no way to resume)
+			if (args.snapshot && !args.noDebug) this.sendEvent(new StoppedEvent('entry', HMMMDebugSession.THREAD_ID));
+			else this._runtime.continue();
 		};
 
 		// Notify the frontend that we are ready to begin receiving configuration requests
@@ -392,16 +613,17 @@ export class HMMMDebugSession extends DebugSession {
 	 * Sent by the frontend to set source line breakpoints in the program
 	 */
 	protected setBreakPointsRequest(response: DebugProtocol.SetBreakpointsResponse, args: DebugProtocol.SetBreakpointsArguments): void {
-		const clientLines = args.lines ?? [];
+		// Older clients only send the lines of the breakpoints (and thus can't send conditions)
+		const clientBreakpoints = args.breakpoints ?? (args.lines ?? []).map(line => <DebugProtocol.SourceBreakpoint>{ line });
 
 		// if the source file doesn't match the one we're debugging, we can't set any breakpoints
 		if (!this.matchesSource(args.source.path)) {
 			response.body = {
 				// So map each line to a breakpoint with verified = false
-				breakpoints: clientLines.map(l => <DebugProtocol.Breakpoint>{
+				breakpoints: clientBreakpoints.map(b => <DebugProtocol.Breakpoint>{
 					verified: false,
 					source: this._source,
-					line: l
+					line: b.line
 				})
 			};
 			this.sendResponse(response);
@@ -413,11 +635,11 @@ export class HMMMDebugSession extends DebugSession {
 
 		// Set the breakpoints in the source file
 		response.body = {
-			breakpoints: clientLines.map(l => {
-				const bp = this._runtime.setSourceBreakpoint(this.convertClientLineToDebugger(l));
+			breakpoints: clientBreakpoints.map(b => {
+				const bp = this._runtime.setSourceBreakpoint(this.convertClientLineToDebugger(b.line), b.condition, b.hitCondition, b.logMessage);
 				// Update the breakpoints returned by the runtime with the actual source and line information
 				bp.source = this._source;
-				bp.line = l;
+				bp.line = b.line;
 				return bp;
 			})
 		};
@@ -535,6 +757,21 @@ export class HMMMDebugSession extends DebugSession {
 		this.sendResponse(response);
 	}
 
+	/**
+	 * Sent by the frontend to set breakpoints on memory addresses (ex. from the disassembly view)
+	 */
+	protected setInstructionBreakpointsRequest(response: DebugProtocol.SetInstructionBreakpointsResponse, args: DebugProtocol.SetInstructionBreakpointsArguments): void {
+		// Clear all old instruction breakpoints
+		this._runtime.clearAllAddressBreakpoints();
+
+		response.body = {
+			// The instruction reference is the address of an instruction (as returned by disassembleRequest), but the offset is a number of bytes (and each word is two bytes)
+			breakpoints: args.breakpoints.map(bp => this._runtime.setAddressBreakpoint(strictParseInt(bp.instructionReference) + Math.floor((bp.offset ?? 0) / 2), bp.condition, bp.hitCondition))
+		};
+
+		this.sendResponse(response);
+	}
+
 	//#endregion
 
 	//#region Stack/Variables
@@ -576,6 +813,32 @@ export class HMMMDebugSession extends DebugSession {
 		this.sendResponse(response);
 	}
 
+	/**
+	 * Sent by the frontend to retrieve the disassembly of memory (ex. to show the disassembly view)
+	 */
+	protected disassembleRequest(response: DebugProtocol.DisassembleResponse, args: DebugProtocol.DisassembleArguments): void {
+		// Memory references are addresses (in words), but the offset is a number of bytes (like in readMemoryRequest and writeMemoryRequest)
+		// Each instruction is exactly one word, so the instruction offset is a number of addresses
+		const startAddress = strictParseInt(args.memoryReference) + Math.floor((args.offset ?? 0) / 2) + (args.instructionOffset ?? 0);
+
+		response.body = { instructions: [] };
+
+		// The frontend may request addresses outside of memory (ex. to fill the view), in which case the runtime returns invalid instructions
+		for (let address = startAddress; address < startAddress + args.instructionCount; address++) {
+			const instruction = this._runtime.getDisassembledInstruction(address);
+
+			// Update the instruction returned by the runtime with the actual source and line information
+			if (instruction.line !== undefined) {
+				instruction.location = this._source;
+				instruction.line = this.convertDebuggerLineToClient(instruction.line);
+			}
+
+			response.body.instructions.push(instruction);
+		}
+
+		this.sendResponse(response);
+	}
+
 	/**
 	 * Sent by the frontend to retrieve the scopes of a stack frame
 	 */
@@ -635,6 +898,18 @@ export class HMMMDebugSession extends DebugSession {
 			const count = args.count ?? 256;
 			const endIdx = Math.min(startIdx + count, 256);
 
+			// Add each memory address to the response
+			for (let i = startIdx; i < endIdx; i++) {
+				response.body.variables.push(this.getVariable(`addr_${i}`, frame, args.format?.hex)!);
+			}
+		} else if (name.startsWith('range_') && args.filter !== 'named') { // Memory ranges (from the debug console/watch panel) only contain indexed variables
+			// The first and last addresses of the range are stored in its name (ex. range_100_110)
+			const [first, last] = name.substring('range_'.length).split('_').map(bound => strictParseInt(bound));
+
+			// Use the arguments to determine the range of memory addresses to add (relative to the start of the range)
+			const startIdx = first + (args.start ?? 0);
+			const endIdx = Math.min(startIdx + (args.count ?? last - first + 1), last + 1);
+
 			// Add each memory address to the response
 			for (let i = startIdx; i < endIdx; i++) {
 				response.body.variables.push(this.getVariable(`addr_${i}`, frame, args.format?.hex)!);
@@ -662,7 +937,7 @@ export class HMMMDebugSession extends DebugSession {
 
 		// I did optimize the memory addresses though because there are enough of them that a frontend may decide to filter them, and
 		// because they were already being added in a loop, not much additional code was needed to optimize them
-		if (name !== 'memory') response.body.variables = sliceWithCount(response.body.variables, args.start, args.count);
+		if (name !== 'memory' && !name.startsWith('range_')) response.body.variables = sliceWithCount(response.body.variables, args.start, args.count);
 		this.sendResponse(response);
 	}
 
@@ -670,30 +945,44 @@ export class HMMMDebugSession extends DebugSession {
 	 * Sent by the frontend to retrieve the value of a variable/expression
 	 */
 	protected evaluateRequest(response: DebugProtocol.EvaluateResponse, args: DebugProtocol.EvaluateArguments): void {
-		// Attempt to parse the variable name
+		// Attempt to parse the expression as a variable name (ex. r3, addr_10, or frame_0.pc)
 		const parsedName = this.parseVariableName(args.expression);
-		if (!parsedName) {
-			// Parsing failed; we can't evaluate the expression
+		if (parsedName) {
+			const [frame, name, format] = parsedName;
+
+			// Evaluate the variable (If a frame was not specified, use the frame specified by the arguments)
+			const result = this.getVariable(name, frame ?? args.frameId, args.format?.hex, format);
+			if (result) {
+				// If the variable was evaluated successfully, return the result
+				response.body = {
+					result: result.value,
+					type: result.type,
+					presentationHint: result.presentationHint,
+					variablesReference: result.variablesReference,
+					namedVariables: result.namedVariables,
+					indexedVariables: result.indexedVariables,
+					memoryReference: result.memoryReference
+				};
+				this.sendResponse(response);
+				return;
+			}
+		}
+
+		// Hovers only show variables (The hovered text is usually an instruction or a number, not an expression)
+		if (args.context === 'hover') {
 			this.sendResponse(response);
 			return;
 		}
-		const [frame, name, format] = parsedName;
 
-		// Evaluate the variable (If a frame was not specified, use the frame specified by the arguments)
-		const result = this.getVariable(name, frame ?? args.frameId, args.format?.hex, format);
-		if (result) {
-			// If the variable was evaluated successfully, return the result
-			response.body = {
-				result: result.value,
-				type: result.type,
-				presentationHint: result.presentationHint,
-				variablesReference: result.variablesReference,
-				namedVariables: result.namedVariables,
-				indexedVariables: result.indexedVariables,
-				memoryReference: result.memoryReference
-			};
+		// Otherwise, evaluate it as an expression
+		const result = this.evaluateExpression(args.expression, args.frameId, args.format?.hex);
+		if (typeof result === 'string') {
+			// The expression could not be evaluated, so show the user why
+			this.sendErrorResponse(response, 4, result);
+			return;
 		}
 
+		response.body = result;
 		this.sendResponse(response);
 	}
 
@@ -776,6 +1065,67 @@ export class HMMMDebugSession extends DebugSession {
 
 	//#endregion
 
+	//#region Memory
+
+	/**
+	 * Sent by the frontend to read a range of memory (ex. to show the memory inspector).
+	 * HMMM memory is made of 256 16-bit words, which are presented as 512 bytes (with the high byte of each word first)
+	 */
+	protected readMemoryRequest(response: DebugProtocol.ReadMemoryResponse, args: DebugProtocol.ReadMemoryArguments): void {
+		// Memory references are word addresses, but offsets are in bytes
+		const startByte = strictParseInt(args.memoryReference) * 2 + (args.offset ?? 0);
+		if (isNaN(startByte)) {
+			this.sendErrorResponse(response, 5, `Invalid memory reference: ${args.memoryReference}`);
+			return;
+		}
+
+		// Only return the part of the requested range which lies within memory
+		const bytes = readMemoryBytes(this._runtime.memory, startByte, args.count);
+
+		response.body = {
+			// Addresses are reported in the same units as memory references (words), like in disassembleRequest and setInstructionBreakpointsRequest
+			// (If the offset is odd, the data starts with the low byte of this word)
+			address: Math.floor(Math.max(startByte, 0) / 2).toString(),
+			data: Buffer.from(bytes).toString('base64'),
+			// Any bytes past the end of memory can't be read
+			unreadableBytes: args.count - bytes.length
+		};
+		this.sendResponse(response);
+	}
+
+	/**
+	 * Sent by the frontend to write to a range of memory (ex. from the memory inspector). See readMemoryRequest for how words are mapped to bytes
+	 */
+	protected writeMemoryRequest(response: DebugProtocol.WriteMemoryResponse, args: DebugProtocol.WriteMemoryArguments): void {
+		// Memory references are word addresses, but offsets are in bytes
+		const startByte = strictParseInt(args.memoryReference) * 2 + (args.offset ?? 0);
+		const bytes = Buffer.from(args.data, 'base64');
+
+		if (isNaN(startByte) || startByte < 0 || startByte >= HMMMDebugSession.MEMORY_SIZE_BYTES) {
+			this.sendErrorResponse(response, 5, `Invalid memory reference: ${args.memoryReference}`);
+			return;
+		}
+
+		// Writes past the end of memory are only allowed if the frontend accepts partial writes
+		const bytesWritten = Math.min(bytes.length, HMMMDebugSession.MEMORY_SIZE_BYTES - startByte);
+		if (bytesWritten < bytes.length && !args.allowPartial) {
+			this.sendErrorResponse(response, 6, `Cannot write ${bytes.length} bytes at byte ${startByte} (memory is only ${HMMMDebugSession.MEMORY_SIZE_BYTES} bytes)`);
+			return;
+		}
+
+		for (const [address, value] of writeMemoryBytes(this._runtime.memory, startByte, bytes.subarray(0, bytesWritten))) {
+			this._runtime.setMemory(address, value);
+		}
+
+		response.body = { bytesWritten };
+		this.sendResponse(response);
+
+		// The variables view shows memory too, so it needs to be refreshed
+		if (bytesWritten) this.sendEvent(new InvalidatedEvent(['variables'], HMMMDebugSession.THREAD_ID));
+	}
+
+	//#endregion
+
 	//#region Exceptions
 
 	/**
@@ -812,6 +1162,90 @@ export class HMMMDebugSession extends DebugSession {
 
 	//#endregion
 
+	//#region Custom Requests
+
+	/**
+	 * Handles requests which aren't part of the Debug Adapter Protocol (sent by the extension's commands)
+	 */
+	protected customRequest(command: string, response: DebugProtocol.Response, args: unknown): void {
+		switch (command) {
+			case 'exportTrace':
+				this.exportTrace(response, <ExportTraceArguments>args);
+				break;
+			case 'saveSnapshot':
+				this.saveSnapshot(response, <SaveSnapshotArguments>args);
+				break;
+			default:
+				super.customRequest(command, response, args);
+		}
+	}
+
+	/**
+	 * Writes the execution trace of the program to the file chosen by the user
+	 */
+	private exportTrace(response: DebugProtocol.Response, args: ExportTraceArguments) {
+		if (!this.writeTrace(args.path, args.format)) {
+			// The command reports the error to the user
+			this.sendErrorResponse(response, 7, `Unable to write the execution trace to ${args.path}`);
+			return;
+		}
+
+		// Let the command tell the user how much of the program was captured
+		response.body = { steps: this._runtime.trace.length };
+		this.sendResponse(response);
+	}
+
+	/**
+	 * Saves the current state of the machine to the file chosen by the user, so the session can be reproduced later with the snapshot launch attribute
+	 */
+	private saveSnapshot(response: DebugProtocol.Response, args: SaveSnapshotArguments) {
+		const snapshot = createSnapshot(this._runtime.getCurrentState());
+		if (!this.writeOutputFile(args.path, JSON.stringify(snapshot, undefined, '\t') + '\n', 'snapshot')) {
+			// The command reports the error to the user
+			this.sendErrorResponse(response, 7, `Unable to write the snapshot to ${args.path}`);
+			return;
+		}
+
+		this.sendResponse(response);
+	}
+
+	//#endregion
+
+	//#region Output File Helper Functions
+
+	/**
+	 * Writes the execution trace of the program to a file
+	 * @param path The path to the file in the debugger's format
+	 * @param format The format to write the trace in
+	 * @returns True if the trace was written successfully, otherwise false
+	 */
+	private writeTrace(path: string, format: HMMMTraceFormat): boolean {
+		return this.writeOutputFile(path, formatTrace(this._runtime.trace, format), 'execution trace');
+	}
+
+	/**
+	 * Writes a file produced by the debugger (ex. a trace), reporting any errors in the debug console
+	 * @param path The path to the file in the debugger's format
+	 * @param contents The contents of the file
+	 * @param description A description of the contents of the file (used in the error message)
+	 * @returns True if the file was written successfully, otherwise false
+	 */
+	private writeOutputFile(path: string, contents: string, description: string): boolean {
+		try {
+			writeFileSync(path, contents);
+		} catch {
+			// Report the error in the debug console, since the session may already be ending
+			const e: DebugProtocol.OutputEvent = new OutputEvent(`Unable to write the ${description} to ${path}\n`);
+			e.body.category = 'stderr';
+			this.sendEvent(e);
+			return false;
+		}
+
+		return true;
+	}
+
+	//#endregion
+
 	//#region Variable Helper Functions
 
 	/**
@@ -878,6 +1312,8 @@ export class HMMMDebugSession extends DebugSession {
 		let value: string | number | undefined = undefined;
 		let numChildren = 0;
 		let attributes: DebugProtocol.VariablePresentationHint['attributes'] = undefined;
+		// The (word) address that the variable can be viewed at in the memory inspector (if any)
+		let memoryReference: string | undefined = undefined;
 
 		if (name === 'pc') {
 			// The variable is the program counter
@@ -894,12 +1330,15 @@ export class HMMMDebugSession extends DebugSession {
 			value = frame.registers[register];
 			attributes = register === 0 ? ['constant', 'readOnly'] : undefined;
 			numChildren = 5; // hex, binary, signed, unsigned, decompiled
+			// Registers often hold addresses (ex. a stack pointer), so allow the memory they point to to be viewed
+			if (value <= 255) memoryReference = value.toString();
 		} else if (name.startsWith('addr_')) {
 			// The variable is a memory address
 			const address = strictParseInt(name.substring('addr_'.length));
 			if (isNaN(address) || address < 0 || address > 255) return undefined; // If the memory address does not exist, the variable does not exist
 			value = frame.memory[address];
 			numChildren = 6; // hex, binary, signed, unsigned, decompiled, modified
+			memoryReference = address.toString();
 		} else {
 			// If the variable does not refer to a register or memory address, it does not exist
 			return undefined;
@@ -962,10 +1401,70 @@ export class HMMMDebugSession extends DebugSession {
 			// If the variable has sub-variables, create a variable handle that can be used to retrieve them
 			variablesReference: numChildren ? this._variableHandles.create(evaluateName) : 0,
 			namedVariables: numChildren,
-			presentationHint: attributes ? { attributes } : undefined
+			presentationHint: attributes ? { attributes } : undefined,
+			// The memory inspector always shows the current memory, so only variables in the topmost stack frame can refer to it
+			memoryReference: stackFrame === -1 && !format ? memoryReference : undefined
 		};
 	}
 
+	/**
+	 * Evaluates an expression (See {@link compileExpression}) or a range of memory addresses (See {@link compileMemoryRange}) in the runtime.
+	 * Expressions may be preceded by a format cast ((hex) or (binary)) which changes how the result is displayed.
+	 * @param expression The expression to evaluate
+	 * @param stackFrame The stack frame to evaluate the expression in (if omitted, the expression will be evaluated in the topmost stack frame)
+	 * @param hex Whether or not to format the result as a hex number (This is provided for ease of use with some request arguments)
+	 * @returns The body of an evaluate response containing the result or a message describing why the expression could not be evaluated
+	 */
+	private evaluateExpression(expression: string, stackFrame: number = -1, hex?: boolean): DebugProtocol.EvaluateResponse['body'] | string {
+		// Attempt to retrieve the stack frame that the expression refers to
+		const frame = this._runtime.getStateAtFrame(stackFrame);
+		if (!frame) return 'The stack frame no longer exists';
+
+		// A format cast at the start of the expression determines how the result is displayed
+		let format = hex ? 'hex' : undefined;
+		const formatCast = /^\s*\(\s*(hex|binary)\s*\)/i.exec(expression);
+		if (formatCast) {
+			format = formatCast[1].toLowerCase();
+			expression = expression.substring(formatCast[0].length);
+		}
+
+		// If the expression is a range, return a variable whose children are the addresses in the range
+		const compiledRange = compileMemoryRange(expression);
+		if (compiledRange) {
+			if (!compiledRange.range) return compiledRange.error!;
+			if (formatCast) return 'Format casts cannot be applied to ranges (Use the "Format as Hex" option in the context menu instead)';
+
+			const bounds = compiledRange.range(frame);
+			if (!bounds) return 'The range must be non-empty and lie within memory (0-255)';
+			const [first, last] = bounds;
+
+			return {
+				result: `[${first}..${last}]`,
+				// Create a variable handle which refers to the addresses in the range (in the requested frame)
+				variablesReference: this._variableHandles.create(`frame_${stackFrame}.range_${first}_${last}`),
+				indexedVariables: last - first + 1
+			};
+		}
+
+		const { expression: compiledExpression, error } = compileExpression(expression);
+		if (!compiledExpression) return error!;
+
+		const value = compiledExpression(frame);
+		if (value === undefined) return 'The expression could not be evaluated (It may divide by zero or read outside of memory)';
+
+		// Format casts display the lower 16 bits of the value (the same way as registers and memory)
+		let result: string;
+		if (format === 'hex') {
+			result = HMMMDebugSession.formatValue(value & 0xFFFF, false, true);
+		} else if (format === 'binary') {
+			result = formatBinaryNumber((value & 0xFFFF).toString(2), true);
+		} else {
+			result = value.toString();
+		}
+
+		return { result, variablesReference: 0 };
+	}
+
 	/**
 	 * Sets the value of a variable in the runtime.
 	 * @param name The name of the variable to set
@@ -1047,6 +1546,8 @@ export class HMMMDebugSession extends DebugSession {
 			if (isNaN(address) || address < 0 || address > 255) return;
 			// If so, set the memory address to the new value
 			this._runtime.setMemory(address, newValue);
+			// Update the memory inspector (if it's open)
+			this.sendEvent(new MemoryEvent('0', address * 2, 2));
 		}
 
 		// If the value was set successfully, invalidate all variables in the stack frame (as far as I can tell, there's no way to only invalidate some variables)
@@ -1075,6 +1576,29 @@ export class HMMMDebugSession extends DebugSession {
 
 	//#endregion
 
+	//#region Input Helper Functions
+
+	/**
+	 * Provides the input to a read instruction. Scripted input (from the launch configuration) is used first,
+	 * and the user is only prompted once it has been exhausted
+	 * @param request The request made by the runtime
+	 * @returns The input value or undefined if the user dismissed the prompt
+	 */
+	private async provideInput(request: HMMMInputRequest): Promise<string | undefined> {
+		const value = this._scriptedInput.shift();
+
+		if (value === undefined) return await promptForInput(request); // No scripted input is left, so ask the user
+
+		// Let the user know where the value came from, since they weren't asked for it
+		const e: DebugProtocol.OutputEvent = new OutputEvent(`${request.instruction}: Read scripted input ${value}\n`);
+		e.body.category = 'console';
+		this.sendEvent(e);
+
+		return value;
+	}
+
+	//#endregion
+
 	//#region Source Helper Functions
 
 	/**
@@ -0,0 +1,401 @@
+import { s16IntToNumber } from './helperfunctions';
+
+//#region Types
+
+/**
+ * The machine state which an expression can refer to
+ */
+export interface HMMMExpressionState {
+	/**
+	 * The address of the current instruction being executed
+	 */
+	instructionPointer: number;
+	/**
+	 * The registers of the HMMM
+	 */
+	registers: number[];
+	/**
+	 * The memory of the HMMM
+	 */
+	memory: number[];
+}
+
+/**
+ * A compiled expression. Evaluates the expression against the given machine state
+ * @returns The value of the expression or undefined if it could not be evaluated (ex. an invalid memory address or division by zero)
+ */
+export type HMMMExpression = (state: HMMMExpressionState) => number | undefined;
+
+/**
+ * The result of compiling an expression
+ */
+export interface HMMMExpressionCompilationResult {
+	/**
+	 * The compiled expression (if compilation succeeded)
+	 */
+	expression?: HMMMExpression;
+	/**
+	 * A message describing why the expression could not be compiled (if compilation failed)
+	 */
+	error?: string;
+}
+
+/**
+ * A compiled memory range. Evaluates the bounds of the range against the given machine state
+ * @returns The first and last addresses in the range or undefined if they could not be evaluated or are not a valid range of memory
+ */
+export type HMMMMemoryRange = (state: HMMMExpressionState) => [number, number] | undefined;
+
+/**
+ * The result of compiling a memory range
+ */
+export interface HMMMMemoryRangeCompilationResult {
+	/**
+	 * The compiled range (if compilation succeeded)
+	 */
+	range?: HMMMMemoryRange;
+	/**
+	 * A message describing why the range could not be compiled (if compilation failed)
+	 */
+	error?: string;
+}
+
+/**
+ * A compiled hit condition. Determines whether a breakpoint should be hit
+ * @param hits The number of times the breakpoint's location has been reached (and its condition was met), including the current time
+ * @returns true if the breakpoint should be hit, false otherwise
+ */
+export type HMMMHitCondition = (hits: number) => boolean;
+
+/**
+ * A compiled message template. Fills in the template using the given machine state
+ * @param state The machine state to evaluate expressions in the template against
+ * @param instruction The disassembled instruction at the instruction pointer
+ * @returns The filled in message
+ */
+export type HMMMMessageTemplate = (state: HMMMExpressionState, instruction: string) => string;
+
+/**
+ * The result of compiling a message template
+ */
+export interface HMMMMessageTemplateCompilationResult {
+	/**
+	 * The compiled template (if compilation succeeded)
+	 */
+	template?: HMMMMessageTemplate;
+	/**
+	 * A message describing why the template could not be compiled (if compilation failed)
+	 */
+	error?: string;
+}
+
+//#endregion
+
+//#region Operators
+
+/**
+ * The binary operators which can be used in expressions. Maps from each operator to its precedence (higher binds tighter) and implementation.
+ * Comparison and logical operators produce 1 for true and 0 for false (like C)
+ */
+const binaryOperators: Record<string, [number, (a: number, b: number) => number | undefined]> = {
+	'||': [1, (a, b) => a || b ? 1 : 0],
+	'&&': [2, (a, b) => a && b ? 1 : 0],
+	'|': [3, (a, b) => a | b],
+	'^': [4, (a, b) => a ^ b],
+	'&': [5, (a, b) => a & b],
+	'==': [6, (a, b) => a === b ? 1 : 0],
+	'!=': [6, (a, b) => a !== b ? 1 : 0],
+	'<': [7, (a, b) => a < b ? 1 : 0],
+	'<=': [7, (a, b) => a <= b ? 1 : 0],
+	'>': [7, (a, b) => a > b ? 1 : 0],
+	'>=': [7, (a, b) => a >= b ? 1 : 0],
+	'<<': [8, (a, b) => a << b],
+	'>>': [8, (a, b) => a >> b],
+	'+': [9, (a, b) => a + b],
+	'-': [9, (a, b) => a - b],
+	'*': [10, (a, b) => a * b],
+	// Division rounds down and the remainder has the same sign as the divisor (like the div and mod instructions). Both fail if dividing by zero
+	'/': [10, (a, b) => b === 0 ? undefined : Math.floor(a / b)],
+	'%': [10, (a, b) => b === 0 ? undefined : a - b * Math.floor(a / b)]
+};
+
+/**
+ * The unary operators which can be used in expressions. The casts reinterpret the lower 16 bits of a value as a signed or unsigned number
+ */
+const unaryOperators: Record<string, (a: number) => number> = {
+	'-': a => -a,
+	'!': a => a ? 0 : 1,
+	'~': a => ~a,
+	'(signed)': a => s16IntToNumber(a & 0xFFFF),
+	'(unsigned)': a => a & 0xFFFF
+};
+
+/**
+ * Matches a single token of an expression. Exactly one of the capture groups will be defined:
+ * 1. A number (decimal, hexadecimal with 0x, or binary with 0b)
+ * 2. A register (r0-r15) or pc
+ * 3. A cast, operator, or bracket
+ */
+const tokenRegex = /\s*(?:(0x[0-9a-f]+|0b[01]+|\d+)\b|(r\d+|pc)\b|(\(\s*(?:signed|unsigned)\s*\)|==|!=|<=|>=|<<|>>|&&|\|\||[-+*/%<>!~&|^()[\]]))/iy;
+
+//#endregion
+
+//#region Compilation
+
+/**
+ * Splits an expression into tokens
+ * @param expression The expression to split
+ * @returns The tokens in the expression or a message describing the first invalid character
+ */
+function tokenize(expression: string): string[] | string {
+	const tokens: string[] = [];
+
+	tokenRegex.lastIndex = 0;
+	while (expression.slice(tokenRegex.lastIndex).trim()) {
+		const start = tokenRegex.lastIndex;
+		const match = tokenRegex.exec(expression);
+		if (!match) return `Unexpected character '${expression.slice(start).trim()[0]}'`;
+		// Remove any whitespace (ex. inside of a cast) so that tokens can be compared directly
+		tokens.push(match[0].replace(/\s/g, '').toLowerCase());
+	}
+
+	return tokens;
+}
+
+/**
+ * Compiles an expression over the registers and memory of the HMMM.
+ *
+ * Expressions can contain:
+ * - Numbers (ex. `5`, `-3`, `0x1F`, `0b101`)
+ * - Registers (ex. `r1`) and `pc` (the instruction pointer). Registers are interpreted as signed numbers
+ * - Memory addresses (ex. `[10]` or `[r15 - 1]`). Memory is interpreted as signed numbers
+ * - The operators `|| && | ^ & == != < <= > >= << >> + - * / %` and the unary operators `- ! ~` (with the same precedence as in C)
+ * - The casts `(signed)` and `(unsigned)`, which reinterpret the lower 16 bits of a value (ex. `(unsigned) r1` or `(signed) 65535`)
+ * - Parentheses
+ *
+ * @param expression The expression to compile (ex. `r1 == 5 && [r15] > 0`)
+ * @returns The compiled expression or a message describing why it is invalid
+ */
+export function compileExpression(expression: string): HMMMExpressionCompilationResult {
+	const tokens = tokenize(expression);
+	if (typeof tokens === 'string') return { error: tokens };
+	if (!tokens.length) return { error: 'Expression is empty' };
+
+	// The index of the next token to parse
+	let index = 0;
+
+	/**
+	 * Parses a binary expression whose operators all have at least the given precedence (using precedence climbing)
+	 * @param minPrecedence The minimum precedence of operators to consume
+	 * @returns The compiled expression
+	 * @throws A message describing the error if the tokens are not a valid expression
+	 */
+	function parseBinary(minPrecedence: number): HMMMExpression {
+		let left = parseUnary();
+
+		while (index < tokens.length && tokens[index] in binaryOperators && binaryOperators[tokens[index]][0] >= minPrecedence) {
+			const operator = tokens[index++];
+			const [precedence, apply] = binaryOperators[operator];
+			// All operators are left associative, so the right side may only contain operators which bind tighter
+			const right = parseBinary(precedence + 1);
+			const lhs = left;
+
+			if (operator === '&&' || operator === '||') {
+				// Logical operators short circuit (so, for example, `r1 != 0 && 10 / r1 > 2` does not fail when r1 is 0)
+				left = state => {
+					const a = lhs(state);
+					if (a === undefined) return undefined;
+					if (operator === '&&' ? !a : a) return apply(a, 0);
+					const b = right(state);
+					return b === undefined ? undefined : apply(a, b);
+				};
+			} else {
+				left = state => {
+					const a = lhs(state);
+					const b = right(state);
+					return a === undefined || b === undefined ? undefined : apply(a, b);
+				};
+			}
+		}
+
+		return left;
+	}
+
+	/**
+	 * Parses a unary expression (a unary operator applied to an operand or just an operand)
+	 * @returns The compiled expression
+	 * @throws A message describing the error if the tokens are not a valid expression
+	 */
+	function parseUnary(): HMMMExpression {
+		const token = tokens[index];
+
+		if (token in unaryOperators) {
+			index++;
+			const operand = parseUnary();
+			const apply = unaryOperators[token];
+			return state => {
+				const a = operand(state);
+				return a === undefined ? undefined : apply(a);
+			};
+		}
+
+		return parseOperand();
+	}
+
+	/**
+	 * Parses a number, register, memory access, or parenthesized expression
+	 * @returns The compiled expression
+	 * @throws A message describing the error if the tokens are not a valid expression
+	 */
+	function parseOperand(): HMMMExpression {
+		const token = tokens[index++];
+
+		if (token === undefined) throw 'Unexpected end of expression';
+
+		if (token === '(') {
+			const inner = parseBinary(0);
+			if (tokens[index++] !== ')') throw 'Expected \')\'';
+			return inner;
+		}
+
+		if (token === '[') {
+			const address = parseBinary(0);
+			if (tokens[index++] !== ']') throw 'Expected \']\'';
+			return state => {
+				const a = address(state);
+				// Reading outside of memory fails rather than returning a made up value
+				if (a === undefined || a < 0 || a > 255) return undefined;
+				return s16IntToNumber(state.memory[a]);
+			};
+		}
+
+		if (token === 'pc') return state => state.instructionPointer;
+
+		if (token.startsWith('r')) {
+			const register = parseInt(token.slice(1));
+			if (register > 15) throw `Invalid register '${token}'`;
+			return state => s16IntToNumber(state.registers[register]);
+		}
+
+		if (/^(0x|0b)?[0-9a-f]+$/.test(token)) {
+			// parseInt doesn't support the 0b prefix, so parse binary numbers separately
+			const value = token.startsWith('0b') ? parseInt(token.slice(2), 2) : Number(token);
+			return () => value;
+		}
+
+		throw `Unexpected '${token}'`;
+	}
+
+	try {
+		const compiled = parseBinary(0);
+		if (index < tokens.length) return { error: `Unexpected '${tokens[index]}'` };
+		return { expression: compiled };
+	} catch (e) {
+		// The parsing functions only throw error messages, so anything else is a bug
+		if (typeof e !== 'string') throw e;
+		return { error: e };
+	}
+}
+
+/**
+ * Compiles a hit condition for a breakpoint. A hit condition is a number optionally preceded by one of the following operators:
+ * - `>=` (or no operator): Break once the breakpoint has been hit at least this many times
+ * - `==` (or `=`): Break only when the breakpoint has been hit exactly this many times
+ * - `>`, `<`, `<=`: Break when the number of hits compares to the number in the given way
+ * - `%`: Break every time the number of hits is a multiple of the number
+ * @param hitCondition The hit condition to compile (ex. `5`, `== 3`, or `% 2`)
+ * @returns The compiled hit condition or undefined if it is invalid
+ */
+export function compileHitCondition(hitCondition: string): HMMMHitCondition | undefined {
+	const match = /^\s*(==?|>=?|<=?|%)?\s*(\d+)\s*$/.exec(hitCondition);
+	if (!match) return undefined;
+
+	const value = parseInt(match[2]);
+
+	switch (match[1]) {
+		case '=':
+		case '==':
+			return hits => hits === value;
+		case '>':
+			return hits => hits > value;
+		case '<':
+			return hits => hits < value;
+		case '<=':
+			return hits => hits <= value;
+		case '%':
+			// Breaking every 0 hits doesn't make sense, so never break
+			return hits => value !== 0 && hits % value === 0;
+		default:
+			return hits => hits >= value;
+	}
+}
+
+/**
+ * Compiles a message template (ex. for a logpoint). Text inside curly braces is replaced with the value of the expression it contains
+ * (See {@link compileExpression} for the syntax), except for `{instruction}`, which is replaced with the disassembled current instruction.
+ * Literal curly braces can be written as `{{` and `}}`.
+ * @param message The template to compile (ex. `r1={r1} top={[r15 - 1]}`)
+ * @returns The compiled template or a message describing why it is invalid
+ */
+export function compileMessageTemplate(message: string): HMMMMessageTemplateCompilationResult {
+	// The template is split into parts, each of which produces a piece of the message
+	const parts: HMMMMessageTemplate[] = [];
+
+	// Matches escaped braces, placeholders, and unmatched braces (everything else is literal text)
+	const placeholderRegex = /\{\{|\}\}|\{([^{}]*)\}|[{}]/g;
+
+	let lastIndex = 0;
+	for (const match of message.matchAll(placeholderRegex)) {
+		const text = message.slice(lastIndex, match.index) + (match[0] === '{{' ? '{' : match[0] === '}}' ? '}' : '');
+		parts.push(() => text);
+		lastIndex = match.index! + match[0].length;
+
+		if (match[0] === '{{' || match[0] === '}}') continue;
+
+		if (match[1] === undefined) return { error: `Unmatched '${match[0]}' (Use '${match[0]}${match[0]}' to include it in the message)` };
+
+		if (match[1].trim().toLowerCase() === 'instruction') {
+			parts.push((_state, instruction) => instruction);
+			continue;
+		}
+
+		const { expression, error } = compileExpression(match[1]);
+		if (!expression) return { error: `${error} in {${match[1]}}` };
+		// Expressions which can't be evaluated are still logged, so that the rest of the message isn't lost
+		parts.push(state => expression(state)?.toString() ?? '<error>');
+	}
+
+	const rest = message.slice(lastIndex);
+	parts.push(() => rest);
+
+	return { template: (state, instruction) => parts.map(part => part(state, instruction)).join('') };
+}
+
+/**
+ * Compiles a range of memory addresses of the form `[start..end]` (ex. `[100..110]` or `[r15 - 3..r15 - 1]`), where start and end are expressions
+ * (See {@link compileExpression} for the syntax). Both ends of the range are inclusive.
+ * @param expression The range to compile
+ * @returns The compiled range, a message describing why it is invalid, or undefined if the expression is not a range
+ */
+export function compileMemoryRange(expression: string): HMMMMemoryRangeCompilationResult | undefined {
+	const match = /^\s*\[(.*)\.\.(.*)\]\s*$/.exec(expression);
+	if (!match) return undefined;
+
+	const start = compileExpression(match[1]);
+	if (!start.expression) return { error: `${start.error} in the start of the range` };
+	const end = compileExpression(match[2]);
+	if (!end.expression) return { error: `${end.error} in the end of the range` };
+
+	const [startExpression, endExpression] = [start.expression, end.expression];
+	return {
+		range: state => {
+			const first = startExpression(state);
+			const last = endExpression(state);
+			// The range must be non-empty and lie entirely within memory
+			if (first === undefined || last === undefined || first < 0 || last > 255 || first > last) return undefined;
+			return [first, last];
+		}
+	};
+}
+
+//#endregion
@@ -3,22 +3,29 @@
 import {
 	DebugConfigurationProviderTriggerKind,
 	ExtensionContext,
+	TextDocument,
 	TextEditor,
 	commands,
+	languages,
 	debug,
-	window
+	window,
+	workspace
 } from 'vscode';
 
 import { readFileSync, writeFileSync } from 'fs';
-import { join } from 'path';
+import { dirname, join } from 'path';
 import {
 	LanguageClient,
 	LanguageClientOptions,
 	ServerOptions,
 	TransportKind
 } from 'vscode-languageclient/node';
-import { compile } from '../../hmmm-spec/out/hmmm';
-import { HMMMDebugAdapterFactory, HMMMDebugConfigurationProvider } from './helperclasses';
+import { compile, disassemble, formatError } from '../../hmmm-spec/out/hmmm';
+import { formatLCOV } from './coverage';
+import { CoverageEventBody, ProfileEventBody } from './debugadapter';
+import { HMMMCoverageDecorator, HMMMDebugAdapterFactory, HMMMDebugConfigurationProvider, HMMMProfileCodeLensProvider } from './helperclasses';
+import { HMMMTestExplorer } from './testexplorer';
+import { getTraceFormat } from './trace';
 
 let hbClient: LanguageClient;
 let hmmmClient: LanguageClient;
@@ -83,8 +90,84 @@ export function activate(context: ExtensionContext) {
 		context.subscriptions.push(debug.registerDebugConfigurationProvider('hmmm', new HMMMDebugConfigurationProvider(), DebugConfigurationProviderTriggerKind.Dynamic));
 	}
 
+	// Show the profile of each program (sent by the debug adapter when the program ends) in the editor
+	{
+		const profileProvider = new HMMMProfileCodeLensProvider();
+		context.subscriptions.push(languages.registerCodeLensProvider([{ language: 'hmmm' }, { language: 'hb' }], profileProvider));
+
+		context.subscriptions.push(debug.onDidReceiveDebugSessionCustomEvent(e => {
+			if (e.session.type !== 'hmmm' || e.event !== 'profile') return;
+
+			const { path, profile } = <ProfileEventBody>e.body;
+			profileProvider.setProfile(path, profile);
+		}));
+
+		// Editing a program moves its lines, so the counts would be shown on the wrong lines
+		context.subscriptions.push(workspace.onDidChangeTextDocument(e => {
+			if (e.contentChanges.length) profileProvider.clearProfile(e.document);
+		}));
+
+		// When run from the command palette, no document is given, so every profile is cleared
+		context.subscriptions.push(commands.registerCommand('hmmm.clearProfile', (document?: TextDocument) => profileProvider.clearProfile(document)));
+	}
+
+	// Show the coverage of each program (sent by the debug adapter when the program ends) in the editor
+	{
+		const coverageDecorator = new HMMMCoverageDecorator();
+		context.subscriptions.push(coverageDecorator);
+
+		context.subscriptions.push(debug.onDidReceiveDebugSessionCustomEvent(e => {
+			if (e.session.type !== 'hmmm' || e.event !== 'coverage') return;
+
+			const { path, coverage } = <CoverageEventBody>e.body;
+			coverageDecorator.setCoverage(path, coverage);
+		}));
+
+		// Decorations only apply to a single editor, so they must be added again whenever a program is opened
+		context.subscriptions.push(window.onDidChangeVisibleTextEditors(editors => coverageDecorator.decorate(editors)));
+
+		// Editing a program moves its lines, so the coverage would be shown on the wrong lines
+		context.subscriptions.push(workspace.onDidChangeTextDocument(e => {
+			if (e.contentChanges.length) coverageDecorator.clearCoverage(e.document);
+		}));
+
+		// When run from the command palette, every program's coverage is cleared
+		context.subscriptions.push(commands.registerCommand('hmmm.clearCoverage', () => coverageDecorator.clearCoverage()));
+
+		context.subscriptions.push(commands.registerTextEditorCommand('hmmm.exportCoverage', async (textEditor: TextEditor) => {
+			const coverage = coverageDecorator.getCoverage(textEditor.document);
+			if (!coverage) {
+				window.showErrorMessage('Run the program before exporting its coverage.');
+				return;
+			}
+
+			const coverageFile = await window.showSaveDialog({
+				// By default, suggest the name most coverage tools look for, next to the program
+				defaultUri: textEditor.document.uri.with({ path: join(dirname(textEditor.document.uri.path), 'lcov.info') }),
+				filters: {
+					'LCOV': ['info', 'lcov'],
+					'All Files': ['*']
+				}
+			});
+			if (!coverageFile) return;
+
+			try {
+				writeFileSync(coverageFile.fsPath, formatLCOV(coverage, textEditor.document.uri.fsPath));
+			} catch (e) {
+				window.showErrorMessage(`Unable to write the coverage to ${coverageFile.fsPath}${e instanceof Error ? `: ${e.message}` : ''}`);
+			}
+		}));
+	}
+
+	// Show the test cases in .test.json files in the Test Explorer
+	context.subscriptions.push(new HMMMTestExplorer());
+
 	// Register the commands
 	{
+		// Create an output channel to report build errors in
+		const buildOutput = window.createOutputChannel('HMMM Build');
+		context.subscriptions.push(buildOutput);
+
 		context.subscriptions.push(commands.registerTextEditorCommand('hmmm.build', async (textEditor: TextEditor) => {
 			const inFile = textEditor.document.uri.fsPath;
 			const outFile = await window.showSaveDialog({
@@ -101,14 +184,102 @@ export function activate(context: ExtensionContext) {
 				// Save the file before building
 				commands.executeCommand('workbench.action.files.save');
 				const code = readFileSync(inFile).toString().split('\n');
-				const compiledCode = compile(code);
-				if (!compiledCode) {
-					window.showErrorMessage('HMMM file contains errors. Please fix them before building.');
+				const { binary, errors } = compile(code);
+				if (!binary) {
+					// List every error in the output channel, so the user can see exactly what needs to be fixed
+					buildOutput.clear();
+					errors.forEach(error => buildOutput.appendLine(`${inFile}:${formatError(error)}`));
+					buildOutput.show(true);
+
+					const numErrors = errors.filter(error => error.severity === 'error').length;
+					window.showErrorMessage(`HMMM file contains ${numErrors} error${numErrors === 1 ? '' : 's'}. Please fix them before building.`);
 					return;
 				}
-				writeFileSync(outFile.fsPath, compiledCode[0].join('\n') + '\n'); // Add an extra newline at the end of the file
+				writeFileSync(outFile.fsPath, binary.join('\n') + '\n'); // Add an extra newline at the end of the file
+			}
+		}));
+
+		context.subscriptions.push(commands.registerTextEditorCommand('hmmm.disassemble', async (textEditor: TextEditor) => {
+			// Open the disassembled code in a new (unsaved) document, so the user can decide where to save it
+			const document = await workspace.openTextDocument({
+				language: 'hmmm',
+				content: disassemble(textEditor.document.getText().split(/\r?\n/)).join('\n') + '\n' // Add an extra newline at the end of the file
+			});
+			await window.showTextDocument(document);
+		}));
+
+		context.subscriptions.push(commands.registerTextEditorCommand('hmmm.renumber', async () => {
+			// The language server provides the edits as a source action, so just ask VSCode to apply it
+			await commands.executeCommand('editor.action.sourceAction', { kind: 'source.renumber', apply: 'first' });
+		}));
+
+		context.subscriptions.push(commands.registerCommand('hmmm.exportTrace', async () => {
+			// The trace is recorded by the debug adapter, so there must be a HMMM program being debugged
+			const session = debug.activeDebugSession;
+			if (session?.type !== 'hmmm') {
+				window.showErrorMessage('Start debugging a HMMM program before exporting its execution trace.');
+				return;
+			}
+
+			const traceFile = await window.showSaveDialog({
+				filters: {
+					'JSON Lines': ['jsonl'],
+					'CSV': ['csv']
+				}
+			});
+			if (!traceFile) return;
+
+			try {
+				const { steps } = await session.customRequest('exportTrace', { path: traceFile.fsPath, format: getTraceFormat(traceFile.fsPath) });
+				window.showInformationMessage(`Exported ${steps} step${steps === 1 ? '' : 's'} to ${traceFile.fsPath}`);
+			} catch (e) {
+				window.showErrorMessage(e instanceof Error ? e.message : `Unable to write the execution trace to ${traceFile.fsPath}`);
+			}
+		}));
+
+		context.subscriptions.push(commands.registerCommand('hmmm.saveSnapshot', async () => {
+			// The state is held by the debug adapter, so there must be a HMMM program being debugged
+			const session = debug.activeDebugSession;
+			if (session?.type !== 'hmmm') {
+				window.showErrorMessage('Start debugging a HMMM program before saving a snapshot.');
+				return;
+			}
+
+			const snapshotFile = await window.showSaveDialog({
+				filters: {
+					'HMMM Snapshot': ['json']
+				}
+			});
+			if (!snapshotFile) return;
+
+			try {
+				await session.customRequest('saveSnapshot', { path: snapshotFile.fsPath });
+				window.showInformationMessage(`Saved a snapshot to ${snapshotFile.fsPath}`);
+			} catch (e) {
+				window.showErrorMessage(e instanceof Error ? e.message : `Unable to write the snapshot to ${snapshotFile.fsPath}`);
 			}
 		}));
+
+		context.subscriptions.push(commands.registerTextEditorCommand('hmmm.debugFromSnapshot', async (textEditor: TextEditor) => {
+			const [snapshotFile] = await window.showOpenDialog({
+				canSelectMany: false,
+				filters: {
+					'HMMM Snapshot': ['json']
+				},
+				openLabel: 'Debug from Snapshot'
+			}) ?? [];
+			if (!snapshotFile) return;
+
+			// Debug the open program, starting from the state saved in the snapshot
+			await debug.startDebugging(workspace.getWorkspaceFolder(textEditor.document.uri), {
+				type: 'hmmm',
+				request: 'launch',
+				name: 'Debug HMMM (Snapshot)',
+				program: textEditor.document.uri.fsPath,
+				isBinary: textEditor.document.languageId === 'hb',
+				snapshot: snapshotFile.fsPath
+			});
+		}));
 	}
 }
 
@@ -1,13 +1,26 @@
 import {
+	CodeLens,
+	CodeLensProvider,
 	DebugAdapterDescriptor,
 	DebugAdapterDescriptorFactory,
 	DebugAdapterInlineImplementation,
 	DebugConfiguration,
 	DebugConfigurationProvider,
 	DebugSession,
-	ProviderResult
+	Disposable,
+	EventEmitter,
+	OverviewRulerLane,
+	ProviderResult,
+	Range,
+	TextDocument,
+	TextEditor,
+	TextEditorDecorationType,
+	Uri,
+	window
 } from 'vscode';
+import { HMMMCoverage, HMMMCoverageStatus, describeLineCoverage, getCoverageStatus } from './coverage';
 import { HMMMDebugSession } from './debugadapter';
+import { HMMMProfile, formatExecutionCount, formatProfileSummary } from './profiler';
 
 /**
  * Tells VSCode how to create a debug adapter for the HMMM debugger.
@@ -41,3 +54,151 @@ export class HMMMDebugConfigurationProvider implements DebugConfigurationProvide
 		];
 	}
 }
+
+/**
+ * Shows the profile of the last run of each program as CodeLenses (a summary on the first line and the execution count of each line).
+ */
+export class HMMMProfileCodeLensProvider implements CodeLensProvider {
+	/**
+	 * Maps from the path of each profiled program to its profile
+	 */
+	private _profiles = new Map<string, HMMMProfile>();
+
+	/**
+	 * Notifies VSCode that the CodeLenses need to be refreshed (ex. when a profile is added or removed)
+	 */
+	private _onDidChangeCodeLenses = new EventEmitter<void>();
+	readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+	/**
+	 * Shows a profile in a program, replacing any previous profile
+	 * @param path The path to the program
+	 * @param profile The profile to show
+	 */
+	setProfile(path: string, profile: HMMMProfile) {
+		this._profiles.set(Uri.file(path).toString(), profile);
+		this._onDidChangeCodeLenses.fire();
+	}
+
+	/**
+	 * Removes the profile from a program (or from every program if no document is given)
+	 * @param document The program to remove the profile from
+	 */
+	clearProfile(document?: TextDocument) {
+		if (document) {
+			if (!this._profiles.delete(document.uri.toString())) return; // The program wasn't showing a profile, so nothing changed
+		} else {
+			this._profiles.clear();
+		}
+		this._onDidChangeCodeLenses.fire();
+	}
+
+	provideCodeLenses(document: TextDocument): ProviderResult<CodeLens[]> {
+		const profile = this._profiles.get(document.uri.toString());
+		if (!profile) return [];
+
+		const firstLine = new Range(0, 0, 0, 0);
+		const codeLenses = [
+			new CodeLens(firstLine, { title: `Profile: ${formatProfileSummary(profile)}`, command: '' }),
+			new CodeLens(firstLine, { title: 'Clear Profile', command: 'hmmm.clearProfile', arguments: [document] })
+		];
+
+		for (const [line, count] of Object.entries(profile.lineCounts)) {
+			const lineNumber = Number(line);
+			if (lineNumber >= document.lineCount) continue; // The file has been shortened since it was profiled
+
+			codeLenses.push(new CodeLens(new Range(lineNumber, 0, lineNumber, 0), { title: formatExecutionCount(count, profile), command: '' }));
+		}
+
+		return codeLenses;
+	}
+}
+
+/**
+ * Creates the decoration used to mark lines with a particular coverage status
+ * @param color The color of the marker
+ * @returns The decoration type
+ */
+function createCoverageDecorationType(color: string): TextEditorDecorationType {
+	// Draw a thin bar (like the ones used for source control changes), so the marker doesn't hide breakpoints in the gutter
+	const icon = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16"><rect x="12" width="4" height="16" fill="${color}"/></svg>`;
+	return window.createTextEditorDecorationType({
+		gutterIconPath: Uri.parse(`data:image/svg+xml;utf8,${encodeURIComponent(icon)}`),
+		gutterIconSize: 'contain',
+		isWholeLine: true,
+		overviewRulerColor: color,
+		overviewRulerLane: OverviewRulerLane.Left
+	});
+}
+
+/**
+ * Marks each line of a program in the gutter as covered, partially covered, or uncovered by the last run of the program.
+ */
+export class HMMMCoverageDecorator implements Disposable {
+	/**
+	 * Maps from the URI of each program to its coverage
+	 */
+	private _coverage = new Map<string, HMMMCoverage>();
+
+	/**
+	 * The decorations used for each coverage status
+	 */
+	private _decorationTypes: Record<HMMMCoverageStatus, TextEditorDecorationType> = {
+		covered: createCoverageDecorationType('#2ea043'),
+		partial: createCoverageDecorationType('#d29922'),
+		uncovered: createCoverageDecorationType('#f85149')
+	};
+
+	/**
+	 * Gets the coverage shown in a program
+	 * @param document The program
+	 * @returns The coverage of the program or undefined if it has no coverage
+	 */
+	getCoverage(document: TextDocument): HMMMCoverage | undefined {
+		return this._coverage.get(document.uri.toString());
+	}
+
+	/**
+	 * Shows the coverage of a program, replacing any previous coverage
+	 * @param path The path to the program
+	 * @param coverage The coverage to show
+	 */
+	setCoverage(path: string, coverage: HMMMCoverage) {
+		this._coverage.set(Uri.file(path).toString(), coverage);
+		this.decorate();
+	}
+
+	/**
+	 * Removes the coverage from a program (or from every program if no document is given)
+	 * @param document The program to remove the coverage from
+	 */
+	clearCoverage(document?: TextDocument) {
+		if (document) {
+			if (!this._coverage.delete(document.uri.toString())) return; // The program wasn't showing coverage, so nothing changed
+		} else {
+			this._coverage.clear();
+		}
+		this.decorate();
+	}
+
+	/**
+	 * Updates the decorations in the given editors to match the coverage of their programs
+	 * @param editors The editors to update (defaults to all visible editors)
+	 */
+	decorate(editors: readonly TextEditor[] = window.visibleTextEditors) {
+		for (const editor of editors) {
+			const lines = this.getCoverage(editor.document)?.lines.filter(line => line.line < editor.document.lineCount) ?? [];
+
+			for (const [status, decorationType] of Object.entries(this._decorationTypes)) {
+				editor.setDecorations(decorationType, lines.filter(line => getCoverageStatus(line) === status).map(line => ({
+					range: new Range(line.line, 0, line.line, 0),
+					hoverMessage: describeLineCoverage(line)
+				})));
+			}
+		}
+	}
+
+	dispose() {
+		Object.values(this._decorationTypes).forEach(decorationType => decorationType.dispose());
+	}
+}
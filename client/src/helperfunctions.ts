@@ -0,0 +1,69 @@
+/**
+ * Perform a slice on an array with a start and count.
+ * @param array The array to slice
+ * @param start The start index or undefined to start at 0
+ * @param count The number of elements to slice or undefined to slice to the end of the array
+ * @returns The sliced array
+ */
+export function sliceWithCount<T>(array: T[], start: number = 0, count: number = array.length): T[] {
+	return array.slice(start, start + count);
+}
+
+/**
+ * A filter function that removes duplicates from an array. (Copied from https://stackoverflow.com/a/14438954)
+ * @param value The value to check
+ * @param index The index of the value in the array
+ * @param array The array to filter from
+ * @returns True if the value at the given index is the first occurrence of the value in the array; false otherwise
+ */
+export function removeDuplicates<T>(value: T, index: number, array: T[]): boolean {
+	return array.indexOf(value) === index;
+}
+
+/**
+ * Converts an unsigned 16-bit integer to a signed number.
+ * @param n The unsigned 16-bit integer to convert.
+ * @returns The signed number.
+ */
+export function s16IntToNumber(n: number): number {
+	if (n > 32767) return n - 65536;
+	return n;
+}
+
+/**
+ * Reads a range of bytes from HMMM memory. Each 16-bit word is presented as two bytes, with the high byte first
+ * @param memory The words of memory
+ * @param startByte The first byte to read (twice the address of its word, plus one for the low byte)
+ * @param count The number of bytes to read
+ * @returns The bytes in the range which lie within memory
+ */
+export function readMemoryBytes(memory: number[], startByte: number, count: number): number[] {
+	const bytes: number[] = [];
+	for (let byte = Math.max(startByte, 0); byte < Math.min(startByte + count, memory.length * 2); byte++) {
+		const word = memory[Math.floor(byte / 2)];
+		// Even bytes are the high byte of a word and odd bytes are the low byte
+		bytes.push(byte % 2 === 0 ? word >> 8 : word & 0xFF);
+	}
+	return bytes;
+}
+
+/**
+ * Determines how HMMM memory changes when bytes are written to it (See {@link readMemoryBytes} for how words are mapped to bytes)
+ * @param memory The words of memory
+ * @param startByte The byte to write the first byte to
+ * @param bytes The bytes to write. The caller is responsible for ensuring that they fit in memory
+ * @returns A map from the address of each word which is written to its new value
+ */
+export function writeMemoryBytes(memory: number[], startByte: number, bytes: Iterable<number>): Map<number, number> {
+	const words = new Map<number, number>();
+	let byte = startByte;
+	for (const value of bytes) {
+		const address = Math.floor(byte / 2);
+		// Words can be written twice (once for each byte), so use the new value if there is one
+		const word = words.get(address) ?? memory[address];
+		// Replace the high byte for even bytes and the low byte for odd bytes
+		words.set(address, byte % 2 === 0 ? (value << 8) | (word & 0xFF) : (word & 0xFF00) | value);
+		byte++;
+	}
+	return words;
+}
@@ -0,0 +1,120 @@
+//#region Types
+
+/**
+ * Counts of the work done by a program while it was running
+ */
+export interface HMMMProfile {
+	/**
+	 * The total number of instructions executed
+	 */
+	instructionsExecuted: number;
+	/**
+	 * The number of memory reads made by instructions (loadn, loadr, and popr). Reading instructions from memory is not counted
+	 */
+	memoryReads: number;
+	/**
+	 * The number of memory writes made by instructions (storen, storer, and pushr)
+	 */
+	memoryWrites: number;
+	/**
+	 * The number of calls made (calln)
+	 */
+	calls: number;
+	/**
+	 * The number of times the instruction at each address was executed (indexed by address)
+	 */
+	addressCounts: number[];
+	/**
+	 * Maps from each (zero-based) source line to the number of times the instruction on it was executed. Lines which were never executed are omitted
+	 */
+	lineCounts: Record<number, number>;
+}
+
+//#endregion
+
+//#region Profiling
+
+/**
+ * Creates a profile for a program which has not executed any instructions
+ * @returns The empty profile
+ */
+export function createProfile(): HMMMProfile {
+	return {
+		instructionsExecuted: 0,
+		memoryReads: 0,
+		memoryWrites: 0,
+		calls: 0,
+		addressCounts: Array(256).fill(0),
+		lineCounts: {}
+	};
+}
+
+/**
+ * Records the execution of an instruction in a profile
+ * @param profile The profile to update
+ * @param instructionName The name of the instruction which was executed
+ * @param address The address of the instruction
+ * @param line The source line of the instruction (if it has one)
+ */
+export function recordExecution(profile: HMMMProfile, instructionName: string, address: number, line: number | undefined) {
+	profile.instructionsExecuted++;
+	profile.addressCounts[address]++;
+	if (line !== undefined) profile.lineCounts[line] = (profile.lineCounts[line] ?? 0) + 1;
+
+	switch (instructionName) {
+		case 'loadn':
+		case 'loadr':
+		case 'popr':
+			profile.memoryReads++;
+			break;
+		case 'storen':
+		case 'storer':
+		case 'pushr':
+			profile.memoryWrites++;
+			break;
+		case 'calln':
+			profile.calls++;
+			break;
+	}
+}
+
+//#endregion
+
+//#region Formatting
+
+/**
+ * Pluralizes a count (ex. `1 call` or `2 calls`)
+ * @param count The count
+ * @param noun The singular form of the thing being counted
+ * @returns The count followed by the noun
+ */
+function pluralize(count: number, noun: string): string {
+	return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Formats the totals in a profile as a single line (ex. `120 instructions executed, 8 memory reads, 8 memory writes, 4 calls`)
+ * @param profile The profile to summarize
+ * @returns The summary
+ */
+export function formatProfileSummary(profile: HMMMProfile): string {
+	return [
+		`${pluralize(profile.instructionsExecuted, 'instruction')} executed`,
+		pluralize(profile.memoryReads, 'memory read'),
+		pluralize(profile.memoryWrites, 'memory write'),
+		pluralize(profile.calls, 'call')
+	].join(', ');
+}
+
+/**
+ * Formats the number of times a line was executed, along with its share of all executed instructions (ex. `Executed 12 times (10.0%)`)
+ * @param count The number of times the line was executed
+ * @param profile The profile the count came from
+ * @returns The formatted count
+ */
+export function formatExecutionCount(count: number, profile: HMMMProfile): string {
+	const percentage = profile.instructionsExecuted ? count / profile.instructionsExecuted * 100 : 0;
+	return `Executed ${count === 1 ? 'once' : `${count} times`} (${percentage.toFixed(1)}%)`;
+}
+
+//#endregion
@@ -4,17 +4,20 @@ import { StackFrame } from '@vscode/debugadapter';
 import { DebugProtocol } from '@vscode/debugprotocol';
 import { EventEmitter } from 'events';
 import { readFileSync } from 'fs';
-import { InputBoxOptions, window, workspace } from 'vscode';
 import {
+	HMMMError,
 	ParsedHMMMInstructionComponents,
 	binaryRegex,
 	compile,
 	componentsOf,
 	decompileInstruction,
-	preprocessLine,
 	strictParseInt
 } from '../../hmmm-spec/out/hmmm';
-import { sliceWithCount } from './debugadapter';
+import { HMMMBranchCoverage, HMMMCoverage, isConditionalJump } from './coverage';
+import { HMMMExpression, HMMMHitCondition, HMMMMessageTemplate, compileExpression, compileHitCondition, compileMessageTemplate } from './expressions';
+import { s16IntToNumber, sliceWithCount } from './helperfunctions';
+import { HMMMProfile, createProfile, recordExecution } from './profiler';
+import { HMMMTraceEntry } from './trace';
 
 /**
  * An instruction log entry. Contains the information necessary to undo the effects of an instruction
@@ -33,6 +36,11 @@ export interface ExecutedInstruction {
 	 * If the instruction did not modify a register or memory address, this is undefined
 	 */
 	oldData?: number;
+	/**
+	 * The registers/memory addresses which the instruction wrote to for the first time (Used to mark them as unmodified again during reverse execution,
+	 * so that reads of them are reported as uninitialized when the program is replayed)
+	 */
+	firstWrites?: StateAccess[];
 	/**
 	 * Whether or not the instruction created a stack frame that needs to be removed during reverse execution
 	 */
@@ -59,12 +67,46 @@ export interface HMMMState {
 	 * The memory addresses that have been modified since the machine was started
 	 */
 	modifiedMemory: Set<number>;
+	/**
+	 * The registers that have been modified since the machine was started
+	 */
+	modifiedRegisters: Set<number>;
+	/**
+	 * The number of instructions that had been executed when the state was captured
+	 */
+	executedInstructionCount: number;
 	/**
 	 * The id of the last instruction (in the instruction log) that was executed
 	 */
 	lastExecutedInstructionId?: number;
 }
 
+/**
+ * A breakpoint set on an instruction
+ */
+interface InstructionBreakpoint {
+	/**
+	 * The id of the breakpoint
+	 */
+	id: number;
+	/**
+	 * An expression which must be non-zero for the breakpoint to be hit (if undefined, the breakpoint is always hit)
+	 */
+	condition?: HMMMExpression;
+	/**
+	 * A predicate on the number of times the breakpoint's condition has been met which must be true for the breakpoint to be hit
+	 */
+	hitCondition?: HMMMHitCondition;
+	/**
+	 * If defined, the breakpoint is a logpoint. Instead of pausing execution, it prints this message to the debug console
+	 */
+	logMessage?: HMMMMessageTemplate;
+	/**
+	 * The number of times the instruction has been reached while the breakpoint's condition was met
+	 */
+	hits: number;
+}
+
 /**
  * Represents an access to a register or memory address
  */
@@ -81,18 +123,93 @@ interface StateAccess {
 	 * The type of access (read or write)
 	 */
 	accessType: 'read' | 'write';
+	/**
+	 * Whether the access pushes to or pops from a stack (via pushr or popr)
+	 */
+	isStackAccess?: boolean;
 }
 
 /**
- * Converts an unsigned 16-bit integer to a signed number.
- * @param n The unsigned 16-bit integer to convert.
- * @returns The signed number.
+ * The settings which control how the runtime executes a program. These mirror the "hmmm.debugging" settings in the extension manifest
  */
-export function s16IntToNumber(n: number): number {
-	if (n > 32767) return n - 65536;
-	return n;
+export interface HMMMRuntimeSettings {
+	/**
+	 * Enable reverse execution
+	 */
+	enableReverseExecution: boolean;
+	/**
+	 * The maximum number of instructions that can be executed when reverse stepping
+	 */
+	reverseExecutionDepth: number;
+	/**
+	 * Keep track of jumps and calls
+	 */
+	enableStackFrames: boolean;
+	/**
+	 * The maximum number of stack frames that will be stored
+	 */
+	stackFrameDepth: number;
+	/**
+	 * Treat division (or modulo) by zero as a critical exception which terminates the program
+	 */
+	divideByZeroIsCritical: boolean;
+	/**
+	 * The maximum number of steps that will be recorded in the execution trace
+	 */
+	traceLength: number;
+	/**
+	 * The maximum number of instructions the program can execute before a step-limit exception is thrown (0 for no limit)
+	 */
+	maxSteps: number;
+	/**
+	 * Throw an infinite-loop exception when the machine returns to exactly the same state
+	 */
+	detectInfiniteLoops: boolean;
 }
 
+/**
+ * The default runtime settings (These match the defaults in the extension manifest)
+ */
+export const defaultRuntimeSettings: HMMMRuntimeSettings = {
+	enableReverseExecution: true,
+	reverseExecutionDepth: 2000000,
+	enableStackFrames: true,
+	stackFrameDepth: 500000,
+	divideByZeroIsCritical: false,
+	traceLength: 1000000,
+	maxSteps: 0,
+	detectInfiniteLoops: true
+};
+
+/**
+ * Describes a request for input made by a read instruction
+ */
+export interface HMMMInputRequest {
+	/**
+	 * The register that the input will be stored into
+	 */
+	register: number;
+	/**
+	 * The address of the read instruction
+	 */
+	address: number;
+	/**
+	 * The disassembled read instruction
+	 */
+	instruction: string;
+}
+
+/**
+ * Provides input to the runtime when a read instruction is executed.
+ * Resolves to the text entered by the user. If the text is not a number (or undefined), the program is terminated
+ */
+export type HMMMInputProvider = (request: HMMMInputRequest) => Promise<string | undefined>;
+
+/**
+ * Reports errors which occur while running a program (outside of the program's normal output) to the user
+ */
+export type HMMMErrorSink = (message: string) => void;
+
 /**
  * A HMMM runtime
  */
@@ -140,6 +257,18 @@ export class HMMMRuntime extends EventEmitter {
 		return this._instructionToSourceMap.get(instruction);
 	}
 
+	/**
+	 * The errors which prevented the source file from being compiled (if any)
+	 */
+	private _compilationErrors: HMMMError[] = [];
+
+	/**
+	 * The errors which prevented the source file from being compiled (if any)
+	 */
+	public get compilationErrors() {
+		return this._compilationErrors;
+	}
+
 	/**
 	 * The number of instructions loaded into memory from the source file
 	 */
@@ -152,6 +281,62 @@ export class HMMMRuntime extends EventEmitter {
 		return this._numInstructions;
 	}
 
+	/**
+	 * The memory addresses loaded from the source file which contain data (placed by .word or .fill) rather than instructions
+	 */
+	private _dataAddresses = new Set<number>();
+
+	/**
+	 * Determines whether an address contains one of the instructions loaded from the source file
+	 * @param address The address to check
+	 * @returns true if the address is in the code segment and does not contain data, false otherwise
+	 */
+	public isInCodeSegment(address: number): boolean {
+		return address >= 0 && address < this._numInstructions && !this._dataAddresses.has(address);
+	}
+
+	/**
+	 * The first address of the stack or undefined to start the stack immediately after the program
+	 */
+	private _stackBase: number | undefined = undefined;
+
+	/**
+	 * The first address past the end of the stack
+	 */
+	private _stackLimit = 256;
+
+	/**
+	 * The first address of the stack. Popping from below this address causes a stack underflow
+	 */
+	public get stackBase() {
+		return this._stackBase ?? this._numInstructions;
+	}
+
+	/**
+	 * The first address past the end of the stack. Pushing to this address (or above) causes a stack overflow
+	 */
+	public get stackLimit() {
+		return this._stackLimit;
+	}
+
+	/**
+	 * Sets the region of memory used by stacks which are accessed with pushr and popr
+	 * @param base The first address of the stack or undefined to start the stack immediately after the program
+	 * @param limit The first address past the end of the stack or undefined to end the stack at the end of memory
+	 * @returns true if the region was set, false if it is not a valid region of memory (in which case the region is not changed)
+	 */
+	public setStackRegion(base: number | undefined, limit: number | undefined): boolean {
+		limit ??= 256;
+
+		if (!Number.isInteger(limit) || limit > 256) return false;
+		if (base !== undefined && (!Number.isInteger(base) || base < 0)) return false;
+		if ((base ?? this._numInstructions) >= limit) return false;
+
+		this._stackBase = base;
+		this._stackLimit = limit;
+		return true;
+	}
+
 	//#endregion
 
 	//#region Machine State
@@ -186,6 +371,17 @@ export class HMMMRuntime extends EventEmitter {
 	 */
 	private _queuedInstructionExecution: NodeJS.Immediate | undefined = undefined;
 
+	/**
+	 * Whether the program is being run without debugging. If so, breakpoints, the stack, and the instruction log are ignored,
+	 * and instructions are executed in batches (rather than one at a time) to run the program as fast as possible
+	 */
+	private _noDebug = false;
+
+	/**
+	 * The number of instructions to execute before yielding to the event loop when running without debugging
+	 */
+	private static NO_DEBUG_BATCH_SIZE = 10000;
+
 	/**
 	 * The registers of the HMMM
 	 */
@@ -206,6 +402,29 @@ export class HMMMRuntime extends EventEmitter {
 	public setRegister(register: number, value: number) {
 		if (register < 1 /* register 0 is always 0 */ || register > 15) return;
 		this._registers[register] = value & 0xFFFF;
+		// Keep track of which registers have been modified
+		this._modifiedRegisters.add(register);
+	}
+
+	/**
+	 * The registers that have been modified since the machine was started
+	 */
+	private _modifiedRegisters = new Set<number>();
+
+	/**
+	 * The registers that have been modified since the machine was started
+	 */
+	public get modifiedRegisters() {
+		return this._modifiedRegisters;
+	}
+
+	/**
+	 * Determines whether a register holds a value which was set by the program (or the user)
+	 * @param register The register to check
+	 * @returns true if the register is r0 (which is always 0) or has been modified, false otherwise
+	 */
+	public isRegisterInitialized(register: number): boolean {
+		return register === 0 || this._modifiedRegisters.has(register);
 	}
 
 	/**
@@ -244,6 +463,15 @@ export class HMMMRuntime extends EventEmitter {
 		return this._modifiedMemory;
 	}
 
+	/**
+	 * Determines whether a memory address holds a value which was set by the program (or the user)
+	 * @param address The address to check
+	 * @returns true if the address was loaded from the source file (as an instruction or data) or has been modified, false otherwise
+	 */
+	public isMemoryInitialized(address: number): boolean {
+		return (address >= 0 && address < this._numInstructions) || this._modifiedMemory.has(address);
+	}
+
 	/**
 	 * @returns The current state of the HMMM
 	 */
@@ -254,6 +482,8 @@ export class HMMMRuntime extends EventEmitter {
 			registers: [...this._registers],
 			memory: [...this._memory],
 			modifiedMemory: new Set(this._modifiedMemory),
+			modifiedRegisters: new Set(this._modifiedRegisters),
+			executedInstructionCount: this._executedInstructionCount,
 			lastExecutedInstructionId: this._instructionLog.length > 0 ? this._instructionLog[0].id : undefined,
 		};
 	}
@@ -268,9 +498,14 @@ export class HMMMRuntime extends EventEmitter {
 	private _breakpointId = 1;
 
 	/**
-	 * Maps from instruction address to breakpoint id of a breakpoint set on that instruction
+	 * Maps from instruction address to the breakpoint set on that instruction
+	 */
+	private _instructionBreakpoints = new Map<number, InstructionBreakpoint>();
+
+	/**
+	 * Maps from memory address to the breakpoint set directly on that address (ex. from the disassembly view)
 	 */
-	private _instructionBreakpoints = new Map<number, number>();
+	private _addressBreakpoints = new Map<number, InstructionBreakpoint>();
 
 	/**
 	 * Maps from register number to breakpoint id of a data read breakpoint set on that register
@@ -377,26 +612,173 @@ export class HMMMRuntime extends EventEmitter {
 	 */
 	private _hasSentInstructionLogLengthWarning = false;
 
+	/**
+	 * Whether or not division by zero should terminate the program (Set by the user in the settings)
+	 */
+	private _divideByZeroIsCritical = false;
+
+	/**
+	 * The number of instructions which have been executed (Reverse execution decrements this)
+	 */
+	private _executedInstructionCount = 0;
+
+	/**
+	 * The number of instructions which have been executed (Reverse execution decrements this)
+	 */
+	public get executedInstructionCount() {
+		return this._executedInstructionCount;
+	}
+
+	/**
+	 * The maximum number of instructions the program can execute before a step-limit exception is thrown (0 for no limit)
+	 */
+	private _maxSteps = 0;
+
+	/**
+	 * The number of executed instructions at which the next step-limit exception will be thrown.
+	 * If the user continues past the exception while debugging, the program is allowed to execute another _maxSteps instructions
+	 */
+	private _stepLimit = 0;
+
+	/**
+	 * Limits the number of instructions the program can execute, so that programs which never halt (ex. `0 jumpn 0`) are stopped
+	 * @param maxSteps The maximum number of instructions to execute or undefined (or 0) for no limit
+	 * @returns true if the limit was set, false if it is not a non-negative integer (in which case the limit is not changed)
+	 */
+	public setMaxSteps(maxSteps: number | undefined): boolean {
+		maxSteps ??= 0;
+
+		if (!Number.isInteger(maxSteps) || maxSteps < 0) return false;
+
+		this._maxSteps = maxSteps;
+		this._stepLimit = maxSteps;
+		return true;
+	}
+
+	/**
+	 * Whether or not to check for the machine returning to exactly the same state (Set by the user in the settings)
+	 */
+	private _detectInfiniteLoops = false;
+
+	/**
+	 * The state which the infinite loop detector compares the current state to. If the machine returns to this state without reading input,
+	 * it will repeat the same instructions forever. The snapshot is replaced whenever the number of steps since it was taken reaches
+	 * _loopSnapshotPower (which doubles each time), so every loop is eventually detected (This is Brent's cycle detection algorithm)
+	 */
+	private _loopSnapshot: HMMMState | undefined = undefined;
+
+	/**
+	 * The number of steps after which the loop snapshot is replaced
+	 */
+	private _loopSnapshotPower = 1;
+
+	/**
+	 * The number of steps executed since the loop snapshot was taken (This is the length of the loop if one is detected)
+	 */
+	private _loopSteps = 0;
+
+	/**
+	 * The addresses of the instructions executed since the loop snapshot was taken (These are the addresses in the loop if one is detected).
+	 * Only unique addresses are kept, so this never holds more than 256 entries no matter how long the program runs
+	 */
+	private _loopAddresses = new Set<number>();
+
+	/**
+	 * The execution trace of the program. An entry is added to the end of the trace every time an instruction is executed (while debugging),
+	 * and removed when it is reversed, so the trace always describes how the program reached its current state
+	 */
+	private _trace = new Array<HMMMTraceEntry>();
+
+	/**
+	 * The execution trace of the program (See {@link _trace})
+	 */
+	public get trace() {
+		return this._trace;
+	}
+
+	/**
+	 * The maximum length of the execution trace (Set by the user in the settings)
+	 */
+	private _maxTraceLength = 0;
+
+	/**
+	 * Whether or not the user has been warned about the trace length being exceeded. This is used to prevent spamming the user with warnings
+	 */
+	private _hasSentTraceLengthWarning = false;
+
+	/**
+	 * Counts of the instructions executed by the program and the work they did. Unlike the trace, the profile is recorded even when
+	 * running without debugging and is not changed by reverse execution, so it measures all of the work done by the machine
+	 */
+	private _profile = createProfile();
+
+	/**
+	 * Counts of the instructions executed by the program and the work they did (See {@link _profile})
+	 */
+	public get profile(): HMMMProfile {
+		return this._profile;
+	}
+
+	/**
+	 * Maps from the address of each conditional jump to the number of times it was (and wasn't) taken. Like the profile,
+	 * this is recorded even when running without debugging and is not changed by reverse execution
+	 */
+	private _branchCoverage: Record<number, HMMMBranchCoverage> = {};
+
+	/**
+	 * The coverage of the program, which contains an entry for every instruction loaded from the source file (whether or not it was executed)
+	 */
+	public get coverage(): HMMMCoverage {
+		const coverage: HMMMCoverage = { lines: [] };
+
+		for (let address = 0; address < this._numInstructions; address++) {
+			// Data can't be covered, since it isn't meant to be executed
+			if (!this.isInCodeSegment(address)) continue;
+
+			const line = this._instructionToSourceMap.get(address);
+			if (line === undefined) continue;
+
+			coverage.lines.push({ line, address, count: this._profile.addressCounts[address], branch: this._branchCoverage[address] });
+		}
+
+		return coverage;
+	}
+
 	//#endregion
 
 	//#endregion
 
 	//#region Lifecycle/Execution
 
+	/**
+	 * Creates a new runtime
+	 * @param _inputProvider Provides the input for read instructions
+	 * @param _errorSink Reports errors which occur while running the program to the user
+	 */
+	public constructor(private _inputProvider: HMMMInputProvider, private _errorSink: HMMMErrorSink) {
+		super();
+	}
+
 	/**
 	 * Configures the runtime to execute the given program
 	 * @param program The path to the program to execute
 	 * @param language The language of the program to execute
+	 * @param settings The settings which control how the program is executed
+	 * @param noDebug Whether to run the program without debugging
 	 */
-	public configure(program: string, language: 'hb' | 'hmmm'): boolean {
+	public configure(program: string, language: 'hb' | 'hmmm', settings: HMMMRuntimeSettings = defaultRuntimeSettings, noDebug = false): boolean {
 		this._language = language;
-
-		// Load the settings set by the user
-		const debuggingSettings = workspace.getConfiguration('hmmm.debugging');
-		this._stackEnabled = debuggingSettings.get<boolean>('enableReverseExecution', false);
-		this._maxStackDepth = debuggingSettings.get<number>('reverseExecutionDepth', 0);
-		this._instructionLogEnabled = debuggingSettings.get<boolean>('enableStackFrames', false);
-		this._maxInstructionLogLength = debuggingSettings.get<number>('stackFrameDepth', 0);
+		this._noDebug = noDebug;
+
+		// Load the given settings
+		this._stackEnabled = settings.enableReverseExecution;
+		this._maxStackDepth = settings.reverseExecutionDepth;
+		this._instructionLogEnabled = settings.enableStackFrames;
+		this._maxInstructionLogLength = settings.stackFrameDepth;
+		this._divideByZeroIsCritical = settings.divideByZeroIsCritical;
+		this._maxTraceLength = settings.traceLength;
+		this.setMaxSteps(settings.maxSteps);
+		this._detectInfiniteLoops = settings.detectInfiniteLoops;
 
 		// Load the program from the given file and return whether or not it was loaded successfully
 		return this.loadSource(program);
@@ -416,17 +798,25 @@ export class HMMMRuntime extends EventEmitter {
 
 		// If the code is assembly, attempt to compile it
 		if (this._language === 'hmmm') {
-			const compiledCode = compile(code);
+			const { binary, lineMap, dataAddresses, errors } = compile(code);
+
+			// Store the errors, so that they can be reported to the user
+			this._compilationErrors = errors.filter(error => error.severity === 'error');
 
 			// If compilation failed, return false (compilation failed)
-			if (!compiledCode) return false;
+			if (!binary) return false;
 
 			// Otherwise, set the binary code to the compiled code
 			// compile also returns a map from instruction number to source line number, so store that as well
-			[code, this._instructionToSourceMap] = compiledCode;
+			code = binary;
+			this._instructionToSourceMap = lineMap;
+			this._dataAddresses = dataAddresses;
 
 			// Use the instruction to source map to populate the source to instruction map
 			for (const [instructionLine, sourceLine] of this._instructionToSourceMap) {
+				// Lines containing data can't be executed, so they shouldn't be treated as instructions (ex. when setting breakpoints)
+				if (this._dataAddresses.has(instructionLine)) continue;
+
 				this._sourceToInstructionMap.set(sourceLine, instructionLine);
 			}
 		}
@@ -455,6 +845,14 @@ export class HMMMRuntime extends EventEmitter {
 			this._memory[this._numInstructions++] = encodedInstruction;
 		}
 
+		// Conditional jumps which are never executed must still be reported as uncovered branches
+		for (let address = 0; address < this._numInstructions; address++) {
+			const instruction = this.getInstructionComponents(address)?.[1];
+			if (this.isInCodeSegment(address) && instruction && isConditionalJump(instruction.instruction.name)) {
+				this._branchCoverage[address] = { taken: 0, notTaken: 0 };
+			}
+		}
+
 		// Return true (compilation succeeded)
 		return true;
 	}
@@ -519,10 +917,13 @@ export class HMMMRuntime extends EventEmitter {
 		// If the program is already running (an instruction execution is queued), do nothing
 		if (this._queuedInstructionExecution) return;
 
+		// The user may have changed the state (ex. by modifying a variable) while the program was paused, so the snapshot may not have been reached by executing instructions
+		this.resetLoopDetector();
+
 		if (reverse) {
 			// If we're running in reverse, ensure that the instruction log is enabled (otherwise we have no idea what we previously executed)
 			if (!this._instructionLogEnabled) {
-				window.showErrorMessage('Reverse Execution is not enabled');
+				this._errorSink('Reverse Execution is not enabled');
 				this.sendEvent('end');
 				return;
 			}
@@ -537,17 +938,40 @@ export class HMMMRuntime extends EventEmitter {
 
 	/**
 	 * Executes the current instruction (in forward order) and queues the next instruction execution (if no breakpoints/exceptions are hit)
+	 * When running without debugging, instructions are executed in batches before the next execution is queued
 	 * @param stepInstruction The name of the instruction to step through (and execute). See run for more information
 	 */
 	private async executeInstructionForward(stepInstruction?: string) {
-		// If there is a breakpoint on the current instruction (and it's not been ignored), pause execution
-		if (this._instructionBreakpoints.has(this.instructionPointer) && !this._ignoreBreakpoints) {
-			this.sendEvent('stopOnBreakpoint', 'breakpoint', this._instructionBreakpoints.get(this.instructionPointer)!);
-			return;
+		const batchSize = this._noDebug ? HMMMRuntime.NO_DEBUG_BATCH_SIZE : 1;
+
+		for (let i = 0; i < batchSize; i++) {
+			// If execution should stop, don't queue anything
+			if (!await this.executeNextInstruction(stepInstruction)) return;
 		}
 
+		// Nothing paused execution, so queue the next instruction execution.
+		// Queueing this here (rather than using a loop/recursion) allows the rest of the event loop to execute,
+		// ensuring that events (like a pause request) from the frontend are processed
+		this._queuedInstructionExecution = setImmediate(this.executeInstructionForward.bind(this, stepInstruction));
+	}
+
+	/**
+	 * Executes the current instruction (in forward order)
+	 * @param stepInstruction The name of the instruction to step through (and execute). See run for more information
+	 * @returns true if execution should continue, false if it was paused or ended
+	 */
+	private async executeNextInstruction(stepInstruction?: string): Promise<boolean> {
+		// If there is a breakpoint on the current instruction (and it's not been ignored), pause execution
+		// (When running without debugging, there are no breakpoints, so skip the check)
+		if (!this._noDebug && this.checkInstructionBreakpoint(true)) return false;
+
+		// Check whether the program has used up all of its steps or is stuck in an infinite loop
+		// (These exceptions are critical when running without debugging, so they must be checked in both modes)
+		if (this.checkStepLimit()) return false;
+		if (this._detectInfiniteLoops && this.checkInfiniteLoop()) return false;
+
 		// Check for exceptions resulting from reading the instruction from memory
-		if (this.checkInstructionExecutionAccess()) return;
+		if (this.checkInstructionExecutionAccess()) return false;
 
 		// Read and parse the instruction from memory
 		const parsedInstruction = this.getInstructionComponents();
@@ -555,11 +979,18 @@ export class HMMMRuntime extends EventEmitter {
 		// If the instruction is invalid, throw an exception
 		if (!parsedInstruction) {
 			this.onInvalidInstruction();
-			return;
+			return false;
 		}
 
 		// Check for breakpoints/exceptions resulting from reads/writes caused by executing the instruction
-		if (this.checkAccesses()) return;
+		// (When running without debugging, only critical exceptions can stop execution, so skip the breakpoint bookkeeping)
+		if (this._noDebug ? this.checkCriticalAccesses() : this.checkAccesses()) return false;
+
+		// Check for arithmetic overflow (This exception is non-critical, so it can't stop execution when running without debugging)
+		if (!this._noDebug && this.checkArithmeticOverflow(parsedInstruction)) return false;
+
+		// Check for division by zero (This exception may be critical, in which case it must be checked even when running without debugging)
+		if ((!this._noDebug || this._divideByZeroIsCritical) && this.checkDivideByZero(parsedInstruction)) return false;
 
 		const [_binaryInstruction, instruction, rX, rY, rZ, N] = parsedInstruction;
 
@@ -571,28 +1002,45 @@ export class HMMMRuntime extends EventEmitter {
 		// The address of the next instruction to execute (if modified by the instruction)
 		let nextInstructionPointer: number | undefined = undefined;
 
+		// The output printed by the instruction (if any)
+		let output: string | undefined = undefined;
+
+		// The locations which the instruction will write to (Used to record the execution trace)
+		// These must be determined before the instruction is executed because they may depend on the registers it modifies (ex. pushr)
+		const writes = this._noDebug ? [] : this.determineAccesses().filter(access => access.accessType === 'write');
+
+		// The locations which have never been written to before (Used to undo marking them as modified during reverse execution)
+		const firstWrites = writes.filter(access => !(access.dataType === 'register' ? this._modifiedRegisters : this._modifiedMemory).has(access.address));
+
 		// Execute the instruction
 		switch (instruction.instruction.name) {
 			case 'halt':
+				// The program ends here, so this is the last step in the trace
+				if (!this._noDebug) this.updateTrace(decompileInstruction(instruction) ?? '', writes);
+				this.updateProfile(instruction.instruction.name);
+				this._executedInstructionCount++;
 				this.sendEvent('end');
-				return;
+				return false;
 			case 'read':
 			{
 				oldData = this._registers[rX!];
-				const input = strictParseInt(await window.showInputBox(<InputBoxOptions>{
-					placeHolder: `Enter a number to store into r${rX}`,
-					prompt: 'You can also type any non-numerical text to terminate the program.',
-					title: `HMMM: ${this.instructionPointer} ${decompileInstruction(instruction)}`
+				const input = strictParseInt(await this._inputProvider({
+					register: rX!,
+					address: this.instructionPointer,
+					instruction: decompileInstruction(instruction) ?? ''
 				}) ?? '');
 				if (isNaN(input)) {
 					this.sendEvent('end');
-					return;
+					return false;
 				}
 				this.setRegister(rX!, input);
+				// The program may behave differently depending on the input, so returning to an earlier state no longer means that it is stuck
+				this.resetLoopDetector();
 				break;
 			}
 			case 'write':
-				this.instructionOutput('stdout', s16IntToNumber(this._registers[rX!]).toString());
+				output = s16IntToNumber(this._registers[rX!]).toString();
+				this.instructionOutput('stdout', output);
 				break;
 			case 'jumpr':
 				nextInstructionPointer = this._registers[rX!];
@@ -655,14 +1103,21 @@ export class HMMMRuntime extends EventEmitter {
 				oldData = this._registers[rX!];
 				this.setRegister(rX!, this._registers[rY!] * this._registers[rZ!]);
 				break;
+			// Registers are stored as unsigned 16-bit numbers, so convert the operands to signed numbers before dividing
+			// (Like Python, which HMMM is based on, division rounds down and the remainder has the same sign as the divisor)
+			// Dividing by zero produces Infinity or NaN, both of which are stored as 0
 			case 'div':
 				oldData = this._registers[rX!];
-				this.setRegister(rX!, Math.floor(this._registers[rY!] / this._registers[rZ!]));
+				this.setRegister(rX!, Math.floor(s16IntToNumber(this._registers[rY!]) / s16IntToNumber(this._registers[rZ!])));
 				break;
 			case 'mod':
+			{
 				oldData = this._registers[rX!];
-				this.setRegister(rX!, this._registers[rY!] % this._registers[rZ!]);
+				const dividend = s16IntToNumber(this._registers[rY!]);
+				const divisor = s16IntToNumber(this._registers[rZ!]);
+				this.setRegister(rX!, dividend - divisor * Math.floor(dividend / divisor));
 				break;
+			}
 			case 'jumpn':
 				nextInstructionPointer = N!;
 				break;
@@ -681,50 +1136,56 @@ export class HMMMRuntime extends EventEmitter {
 					nextInstructionPointer = N!;
 				}
 				break;
+			// Registers are stored as unsigned 16-bit numbers, so they must be converted to signed numbers before comparing them to 0
 			case 'jgtzn':
-				if (this._registers[rX!] > 0) {
+				if (s16IntToNumber(this._registers[rX!]) > 0) {
 					nextInstructionPointer = N!;
 				}
 				break;
 			case 'jltzn':
-				if (this._registers[rX!] < 0) {
+				if (s16IntToNumber(this._registers[rX!]) < 0) {
 					nextInstructionPointer = N!;
 				}
 				break;
 			default:
 				// The instruction does not have an implementation, so throw an exception (this should never happen)
 				this.onInvalidInstruction();
-				return;
+				return false;
 		}
 
-		// We have to update the stack and instruction log before we increment the instruction pointer because
-		// the current instruction pointer must be included in both entries
+		// We have to update the stack, instruction log, trace, profile, and coverage before we increment the instruction pointer because
+		// the current instruction pointer must be included in all of the entries
+		// (When running without debugging, nothing can step backwards or inspect the stack, so skip everything except the profile and coverage)
+		if (!this._noDebug) this.updateTrace(decompileInstruction(instruction) ?? '', writes, output);
+		this.updateProfile(instruction.instruction.name);
+		this.updateBranchCoverage(instruction.instruction.name, nextInstructionPointer !== undefined);
 
 		// If the instruction modified the instruction pointer,
 		if (nextInstructionPointer !== undefined) {
 			// Create a stack frame and push an entry to the instruction log
-			this.updateLogs(true, oldData);
+			if (!this._noDebug) this.updateLogs(true, oldData, firstWrites);
 
 			// Set the instruction pointer to the new address
 			this.instructionPointer = nextInstructionPointer;
 		} else { // Otherwise,
 			// Push an entry to the instruction log corresponding to the current instruction
-			this.updateLogs(false, oldData);
+			if (!this._noDebug) this.updateLogs(false, oldData, firstWrites);
 
 			// Otherwise, just increment the instruction pointer
 			this.instructionPointer++;
 		}
 
+		// This must be updated after the stack frame is created, since frames represent the state before the instruction was executed
+		this._executedInstructionCount++;
+
 		// If a step instruction was specified (and applies to the just executed instruction), pause execution
 		if (stepInstruction === '' || instruction.instruction.name === stepInstruction) {
 			this.sendEvent('stop', 'step');
-			return;
+			return false;
 		}
 
-		// Nothing paused execution, so queue the next instruction execution.
-		// Queueing this here (rather than using a loop/recursion) allows the rest of the event loop to execute,
-		// ensuring that events (like a pause request) from the frontend are processed
-		this._queuedInstructionExecution = setImmediate(this.executeInstructionForward.bind(this, stepInstruction));
+		// Nothing paused execution, so continue
+		return true;
 	}
 
 	/**
@@ -821,15 +1282,23 @@ export class HMMMRuntime extends EventEmitter {
 			}
 		}
 
+		// Restoring the old values marks them as modified, so unmark the locations which hadn't been written to before the instruction
+		// (Otherwise, replaying the program wouldn't report reads of them as uninitialized)
+		for (const access of instructionInfo.firstWrites ?? []) {
+			if (access.dataType === 'register') this._modifiedRegisters.delete(access.address);
+			else this._modifiedMemory.delete(access.address);
+		}
+
+		// The instruction has been unwound, so remove it from the trace
+		this._executedInstructionCount--;
+		this.trimTrace();
+
 		// Check for breakpoints/exceptions resulting from reads/writes caused by executing the instruction
 		// Unlike in forward execution, we do this after restoring the old values so that if the machine stops,
 		// it is in the same state as if it had paused during forward execution
 		// (See executeInstructionForward for more detailed comments on each of these blocks)
 
-		if (this._instructionBreakpoints.has(this.instructionPointer) && !this._ignoreBreakpoints) {
-			this.sendEvent('stopOnBreakpoint', 'breakpoint', this._instructionBreakpoints.get(this.instructionPointer)!);
-			return;
-		}
+		if (this.checkInstructionBreakpoint(false)) return;
 
 		if (this.checkAccesses()) return;
 
@@ -874,6 +1343,8 @@ export class HMMMRuntime extends EventEmitter {
 				// If the instruction does not correspond to a source line, set the line number to -1
 				line: this._instructionToSourceMap.get(frame.instructionPointer) ?? -1,
 				column: 0,
+				// Allow the frame to be shown in the disassembly view (This is the only way to view frames which don't correspond to a source line)
+				instructionPointerReference: frame.instructionPointer.toString(),
 				presentationHint: decompiledInstruction ? 'normal' : 'label',
 				// We can restart execution at any frame in the stack
 				canRestart: true
@@ -888,6 +1359,7 @@ export class HMMMRuntime extends EventEmitter {
 				name: this.getInstructionAt(this.instructionPointer),
 				line: this._instructionToSourceMap.get(this.instructionPointer) ?? -1,
 				column: 0,
+				instructionPointerReference: this.instructionPointer.toString(),
 				presentationHint: 'subtle',
 				// It doesn't make sense to restart execution at the current frame because that would be a no-op
 				canRestart: false
@@ -923,8 +1395,13 @@ export class HMMMRuntime extends EventEmitter {
 		this._registers = [...frame.registers];
 		this._memory = [...frame.memory];
 		this._modifiedMemory = new Set(frame.modifiedMemory);
+		this._modifiedRegisters = new Set(frame.modifiedRegisters);
+		this._executedInstructionCount = frame.executedInstructionCount;
 		this._stack = this._stack.slice(frameId + 1);
 
+		// Remove all steps from the trace that were executed after the frame was created
+		this.trimTrace();
+
 		// Remove all instructions from the instruction log that added after the frame was created
 		if (frame.lastExecutedInstructionId) {
 			// Remove instructions from the instruction log until we reach the instruction that was at the top of the log when the frame was created
@@ -940,6 +1417,28 @@ export class HMMMRuntime extends EventEmitter {
 		this.sendEvent('stop', 'restart');
 	}
 
+	/**
+	 * Replaces the state of the machine (ex. with a snapshot saved in another session). The stack, instruction log, and trace are cleared,
+	 * since they describe how the previous state was reached. This must be called after the program is loaded (and doesn't send a stop event)
+	 * @param state The state to restore
+	 */
+	public restoreState(state: HMMMState) {
+		this.instructionPointer = state.instructionPointer;
+		// Copy the registers and memory from the state so that they can be modified without affecting the original state
+		this._registers = [...state.registers];
+		this._memory = [...state.memory];
+		this._modifiedMemory = new Set(state.modifiedMemory);
+		this._modifiedRegisters = new Set(state.modifiedRegisters);
+		this._executedInstructionCount = state.executedInstructionCount;
+
+		this._stack = [];
+		this._instructionLog = [];
+		this._trace = [];
+
+		// The step limit applies to the instructions executed after the state was restored
+		this._stepLimit = this._executedInstructionCount + this._maxSteps;
+	}
+
 	/**
 	 * Retrieves the state of the HMMM during the given stack frame (if the frame exists)
 	 * @param idx The id of the stack frame to retrieve the state of
@@ -980,8 +1479,9 @@ export class HMMMRuntime extends EventEmitter {
 	 * he correct instructionId is used for the stack. It is recommended to use {@link updateLogs} instead.
 	 * @param didCreateStackFrame Whether or not the current instruction created a stack frame (Which will need to be removed if the instruction is reversed)
 	 * @param oldData The old value of the register/memory address that was modified by the instruction (Used to revert the change during reverse execution)
+	 * @param firstWrites The registers/memory addresses which the instruction wrote to for the first time (Used to revert the change during reverse execution)
 	 */
-	private updateInstructionLog(didCreateStackFrame: boolean, oldData?: number) {
+	private updateInstructionLog(didCreateStackFrame: boolean, oldData?: number, firstWrites?: StateAccess[]) {
 		// If the instruction log is not enabled, do nothing
 		if (!this._instructionLogEnabled) return;
 
@@ -1003,19 +1503,84 @@ export class HMMMRuntime extends EventEmitter {
 			address: this.instructionPointer,
 			// If the stack is disabled, the instruction did not create a stack frame
 			didCreateStackFrame: didCreateStackFrame && this._stackEnabled,
-			oldData: oldData
+			oldData: oldData,
+			firstWrites: firstWrites
 		});
 	}
 
+	/**
+	 * Adds an entry to the end of the execution trace for the current instruction. This must be called after the instruction is executed
+	 * (so that the new values of the locations it wrote to are known), but before the instruction pointer is updated.
+	 * @param instruction The disassembled instruction
+	 * @param writes The locations which the instruction wrote to
+	 * @param output The output printed by the instruction (if any)
+	 */
+	private updateTrace(instruction: string, writes: StateAccess[], output?: string) {
+		// If the trace is full, stop recording (The start of the trace is more useful for comparing programs than the end)
+		if (this._maxTraceLength > 0 && this._trace.length >= this._maxTraceLength) {
+			// If we haven't already warned the user about the trace length being exceeded, do so now
+			if (!this._hasSentTraceLengthWarning) {
+				this._hasSentTraceLengthWarning = true;
+				this.debuggerOutput('WARNING: Execution Trace Overflow (Later steps will not be recorded)');
+			}
+			return;
+		}
+
+		// The instruction hasn't been counted yet, so it is the next step
+		const entry: HMMMTraceEntry = { step: this._executedInstructionCount + 1, address: this.instructionPointer, instruction, registers: {}, memory: {}, output };
+
+		for (const write of writes) {
+			if (write.dataType === 'register') {
+				entry.registers[`r${write.address}`] = s16IntToNumber(this._registers[write.address]);
+			} else if (write.address >= 0 && write.address <= 255) {
+				entry.memory[write.address] = s16IntToNumber(this._memory[write.address]);
+			}
+		}
+
+		this._trace.push(entry);
+	}
+
+	/**
+	 * Removes all steps from the end of the execution trace which have not been executed (ex. because they were reversed)
+	 */
+	private trimTrace() {
+		while (this._trace.length > 0 && this._trace[this._trace.length - 1].step > this._executedInstructionCount) {
+			this._trace.pop();
+		}
+	}
+
+	/**
+	 * Records the execution of the current instruction in the profile. This must be called before the instruction pointer is updated
+	 * @param instructionName The name of the instruction which was executed
+	 */
+	private updateProfile(instructionName: string) {
+		recordExecution(this._profile, instructionName, this.instructionPointer, this._instructionToSourceMap.get(this.instructionPointer));
+	}
+
+	/**
+	 * Records the direction taken by the current instruction if it is a conditional jump. This must be called before the instruction pointer is updated
+	 * @param instructionName The name of the instruction which was executed
+	 * @param didJump Whether the instruction jumped (rather than continuing with the next instruction)
+	 */
+	private updateBranchCoverage(instructionName: string, didJump: boolean) {
+		if (!isConditionalJump(instructionName)) return;
+
+		// Code written at runtime may contain conditional jumps which weren't loaded from the source file
+		const branch = this._branchCoverage[this.instructionPointer] ??= { taken: 0, notTaken: 0 };
+		if (didJump) branch.taken++;
+		else branch.notTaken++;
+	}
+
 	/**
 	 * Because the stack frame and the instruction log should always be updated together, this function updates both of them
 	 *
 	 * @param createStackFrame Whether or not to create a stack frame for the current instruction
 	 * @param oldData The old value of the register/memory address that was modified by the instruction (Used to revert the change during reverse execution)
+	 * @param firstWrites The registers/memory addresses which the instruction wrote to for the first time (Used to revert the change during reverse execution)
 	 */
-	private updateLogs(createStackFrame: boolean, oldData?: number) {
+	private updateLogs(createStackFrame: boolean, oldData?: number, firstWrites?: StateAccess[]) {
 		if(createStackFrame) this.createStackFrame();
-		this.updateInstructionLog(createStackFrame, oldData);
+		this.updateInstructionLog(createStackFrame, oldData, firstWrites);
 	}
 
 	//#endregion
@@ -1026,21 +1591,152 @@ export class HMMMRuntime extends EventEmitter {
 	 * Sets a source breakpoint on the given line. The returned breakpoint contains no source/line information.
 	 * This is expected to be supplied by the debug adapter.
 	 * @param line The line to set the breakpoint on
+	 * @param condition An expression which must be non-zero for the breakpoint to be hit (See {@link compileExpression} for the syntax)
+	 * @param hitCondition A condition on the number of times the breakpoint has been hit (See {@link compileHitCondition} for the syntax)
+	 * @param logMessage If defined, the breakpoint is a logpoint which prints this message instead of pausing execution (See {@link compileMessageTemplate} for the syntax)
 	 */
-	public setSourceBreakpoint(line: number): DebugProtocol.Breakpoint {
+	public setSourceBreakpoint(line: number, condition?: string, hitCondition?: string, logMessage?: string): DebugProtocol.Breakpoint {
 		// Create a breakpoint object with a unique id and set verified to false (for now)
 		const bp: DebugProtocol.Breakpoint = { id: this._breakpointId++, verified: false };
 
-		// If the line maps to an instruction, verify the breakpoint and store it in the instruction breakpoints map
-		if (this._sourceToInstructionMap.has(line)) {
-			bp.verified = true;
-			this._instructionBreakpoints.set(this._sourceToInstructionMap.get(line)!, bp.id!);
+		// If the line doesn't map to an instruction, the breakpoint can't be verified
+		if (!this._sourceToInstructionMap.has(line)) return bp;
+
+		const breakpoint = this.createInstructionBreakpoint(bp, condition, hitCondition, logMessage);
+		if (!breakpoint) return bp;
+
+		// Verify the breakpoint and store it in the instruction breakpoints map
+		bp.verified = true;
+		this._instructionBreakpoints.set(this._sourceToInstructionMap.get(line)!, breakpoint);
+
+		// Return the breakpoint object
+		return bp;
+	}
+
+	/**
+	 * Sets a breakpoint on the instruction at the given memory address (ex. from the disassembly view).
+	 * Unlike source breakpoints, these can be set on addresses which do not correspond to a source line.
+	 * @param address The address to set the breakpoint on
+	 * @param condition An expression which must be non-zero for the breakpoint to be hit (See {@link compileExpression} for the syntax)
+	 * @param hitCondition A condition on the number of times the breakpoint has been hit (See {@link compileHitCondition} for the syntax)
+	 */
+	public setAddressBreakpoint(address: number, condition?: string, hitCondition?: string): DebugProtocol.Breakpoint {
+		// Create a breakpoint object with a unique id and set verified to false (for now)
+		const bp: DebugProtocol.Breakpoint = { id: this._breakpointId++, verified: false, instructionReference: address.toString() };
+
+		// If the address is outside of memory, the breakpoint can't be verified
+		if (isNaN(address) || address < 0 || address > 255) {
+			bp.message = 'Breakpoints can only be set on addresses 0-255';
+			return bp;
 		}
 
+		const breakpoint = this.createInstructionBreakpoint(bp, condition, hitCondition);
+		if (!breakpoint) return bp;
+
+		// Verify the breakpoint and store it in the address breakpoints map
+		bp.verified = true;
+		this._addressBreakpoints.set(address, breakpoint);
+
 		// Return the breakpoint object
 		return bp;
 	}
 
+	/**
+	 * Compiles the conditions of a new instruction breakpoint
+	 * @param bp The breakpoint object which will be returned to the debug adapter. If a condition is invalid, its message is set to describe the error
+	 * @param condition An expression which must be non-zero for the breakpoint to be hit
+	 * @param hitCondition A condition on the number of times the breakpoint has been hit
+	 * @param logMessage If defined, the breakpoint is a logpoint which prints this message instead of pausing execution
+	 * @returns The breakpoint or undefined if any of its conditions are invalid
+	 */
+	private createInstructionBreakpoint(bp: DebugProtocol.Breakpoint, condition?: string, hitCondition?: string, logMessage?: string): InstructionBreakpoint | undefined {
+		const breakpoint: InstructionBreakpoint = { id: bp.id!, hits: 0 };
+
+		// Compile the conditions (if any). If any are invalid, leave the breakpoint unverified and tell the user why
+		if (condition?.trim()) {
+			const { expression, error } = compileExpression(condition);
+			if (!expression) {
+				bp.message = `Invalid condition: ${error}`;
+				return undefined;
+			}
+			breakpoint.condition = expression;
+		}
+		if (hitCondition?.trim()) {
+			breakpoint.hitCondition = compileHitCondition(hitCondition);
+			if (!breakpoint.hitCondition) {
+				bp.message = `Invalid hit count: ${hitCondition} (Expected a number optionally preceded by one of ==, >, >=, <, <=, or %)`;
+				return undefined;
+			}
+		}
+		if (logMessage) {
+			const { template, error } = compileMessageTemplate(logMessage);
+			if (!template) {
+				bp.message = `Invalid log message: ${error}`;
+				return undefined;
+			}
+			breakpoint.logMessage = template;
+		}
+
+		return breakpoint;
+	}
+
+	/**
+	 * Checks whether there is a breakpoint (source or address) on the current instruction which should be hit. If there is, pauses execution
+	 * (or, if the breakpoint is a logpoint, prints its message).
+	 * @param isForward Whether the program is executing forwards. Reverse execution does not count towards hit counts or print logpoints
+	 * @returns true if a breakpoint was hit (and execution should stop), false otherwise
+	 */
+	private checkInstructionBreakpoint(isForward: boolean): boolean {
+		if (this._ignoreBreakpoints) return false;
+
+		// Check both kinds of breakpoints (even if the first is hit) so that both of their hit counts are updated
+		const sourceBreakpointHit = this.isInstructionBreakpointHit(this._instructionBreakpoints.get(this.instructionPointer), isForward);
+		const addressBreakpointHit = this.isInstructionBreakpointHit(this._addressBreakpoints.get(this.instructionPointer), isForward);
+
+		if (sourceBreakpointHit || addressBreakpointHit) {
+			const hitBreakpoints = [sourceBreakpointHit, addressBreakpointHit].filter(breakpoint => breakpoint).map(breakpoint => breakpoint!.id);
+			this.sendEvent('stopOnBreakpoint', sourceBreakpointHit ? 'breakpoint' : 'instruction breakpoint', hitBreakpoints);
+			return true;
+		}
+
+		return false;
+	}
+
+	/**
+	 * Determines whether a breakpoint on the current instruction should pause execution. If the breakpoint is a logpoint, prints its message
+	 * @param breakpoint The breakpoint on the current instruction (if there is one)
+	 * @param isForward Whether the program is executing forwards. Reverse execution does not count towards hit counts or print logpoints
+	 * @returns The breakpoint if it should pause execution, undefined otherwise
+	 */
+	private isInstructionBreakpointHit(breakpoint: InstructionBreakpoint | undefined, isForward: boolean): InstructionBreakpoint | undefined {
+		if (!breakpoint) return undefined;
+
+		if (breakpoint.condition) {
+			const value = breakpoint.condition(this);
+			if (value === undefined) {
+				// If the condition can't be evaluated (ex. it reads an invalid memory address), stop so that the user can see why
+				this.debuggerOutput(`Could not evaluate the condition of the breakpoint at ${this.instructionPointer}`);
+			} else if (!value) {
+				return undefined;
+			}
+		}
+
+		// The hit count only includes times where the condition was met
+		if (isForward) breakpoint.hits++;
+		if (breakpoint.hitCondition && !breakpoint.hitCondition(breakpoint.hits)) return undefined;
+
+		// Logpoints never pause execution
+		if (breakpoint.logMessage) {
+			if (isForward) {
+				const instruction = decompileInstruction(this._memory[this.instructionPointer]) ?? 'invalid instruction';
+				this.debuggerOutput(breakpoint.logMessage(this, instruction), this._instructionToSourceMap.get(this.instructionPointer));
+			}
+			return undefined;
+		}
+
+		return breakpoint;
+	}
+
 	/**
 	 * Removes all source breakpoints
 	 */
@@ -1048,6 +1744,13 @@ export class HMMMRuntime extends EventEmitter {
 		this._instructionBreakpoints.clear();
 	}
 
+	/**
+	 * Removes all address breakpoints
+	 */
+	public clearAllAddressBreakpoints() {
+		this._addressBreakpoints.clear();
+	}
+
 	/**
 	 * Set data breakpoint.
 	 * @param address The address to set the breakpoint on
@@ -1149,8 +1852,9 @@ export class HMMMRuntime extends EventEmitter {
 				// The file contains binary instructions and the line is a valid binary instruction
 				if (binaryRegex.test(lineText)) validLines.push(line);
 			} else {
-				// The file contains assembly instructions and the line contains some uncommented code
-				if (preprocessLine(lineText).trim()) validLines.push(line);
+				// The file contains assembly instructions and the line was compiled into an instruction
+				// (This excludes empty lines, comments, and label definitions)
+				if (this._sourceToInstructionMap.has(line)) validLines.push(line);
 			}
 		}
 
@@ -1169,6 +1873,28 @@ export class HMMMRuntime extends EventEmitter {
 		return instruction ? `${address} ${instruction}` : 'Invalid Instruction';
 	}
 
+	/**
+	 * Disassembles the word at the given memory address using the current contents of memory (ex. for the disassembly view).
+	 * The returned instruction contains no source information. This is expected to be supplied by the debug adapter.
+	 * @param address The address to disassemble
+	 * @returns The disassembled instruction. If the address is out of range, the instruction is marked as invalid. If the address contains data
+	 * 		(placed by .word or .fill) or a word which is not a valid instruction, it is shown as a .word directive.
+	 * 		If the address corresponds to a source line, the line is included
+	 */
+	public getDisassembledInstruction(address: number): DebugProtocol.DisassembledInstruction {
+		if (address < 0 || address > 255) return { address: address.toString(), instruction: '', presentationHint: 'invalid' };
+
+		const value = this._memory[address];
+		const instruction = this._dataAddresses.has(address) ? undefined : decompileInstruction(value);
+
+		return {
+			address: address.toString(),
+			instructionBytes: value.toString(16).padStart(4, '0'),
+			instruction: instruction ?? `.word ${s16IntToNumber(value)}`,
+			line: this._instructionToSourceMap.get(address)
+		};
+	}
+
 	/**
 	 * Attempt to break the instruction at the given memory address into its components
 	 * @param address The address of the instruction to parse. If this value is out of range, undefined is returned.
@@ -1274,7 +2000,7 @@ export class HMMMRuntime extends EventEmitter {
 			case 'popr':
 				// popr reads from memory[rY] (and thus must read from rY) and then writes to rX and updates rY
 				accesses.push({ address: rY!, dataType: 'register', accessType: 'read' });
-				accesses.push({ address: this._registers[rY!] - 1, dataType: 'memory', accessType: 'read' });
+				accesses.push({ address: this._registers[rY!] - 1, dataType: 'memory', accessType: 'read', isStackAccess: true });
 				accesses.push({ address: rX!, dataType: 'register', accessType: 'write' });
 				accesses.push({ address: rY!, dataType: 'register', accessType: 'write' });
 				break;
@@ -1282,7 +2008,7 @@ export class HMMMRuntime extends EventEmitter {
 				// pushr reads from rX and then writes to memory[rY] (and thus must read from rY) and updates rY
 				accesses.push({ address: rX!, dataType: 'register', accessType: 'read' });
 				accesses.push({ address: rY!, dataType: 'register', accessType: 'read' });
-				accesses.push({ address: this._registers[rY!], dataType: 'memory', accessType: 'write' });
+				accesses.push({ address: this._registers[rY!], dataType: 'memory', accessType: 'write', isStackAccess: true });
 				accesses.push({ address: rY!, dataType: 'register', accessType: 'write' });
 				break;
 		}
@@ -1306,6 +2032,15 @@ export class HMMMRuntime extends EventEmitter {
 		for (const access of accesses) {
 			// Determine if the access hits a breakpoint/exception
 			if (access.dataType === 'register') {
+				// Throw an exception if the instruction reads from a register which has never been written to
+				// (This exception cannot be masked by _ignoreBreakpoints)
+				if (access.accessType === 'read' && !this.isRegisterInitialized(access.address)) {
+					const message = `Instruction at ${this.instructionPointer} attempted to read from r${access.address}, which has not been initialized`;
+					// Because this exception is non-critical, the exception handler may choose to ignore it
+					// Only stop execution if it does not
+					if (this.onException('uninitialized-read', message, false)) return true;
+				}
+
 				// All breakpoints which can occur on registers can be masked by _ignoreBreakpoints
 				if (this._ignoreBreakpoints) continue;
 
@@ -1318,6 +2053,23 @@ export class HMMMRuntime extends EventEmitter {
 			} else {
 				// Check for exceptions on memory accesses (these cannot be masked by _ignoreBreakpoints)
 
+				// Throw an exception if a push or pop leaves the stack region
+				// (This is checked first, since it is usually the cause of any other exceptions caused by the access)
+				if (access.isStackAccess) {
+					const operation = access.accessType === 'write' ? 'push to' : 'pop from';
+					if (access.address >= this.stackLimit) {
+						const message = `Stack overflow: Instruction at ${this.instructionPointer} attempted to ${operation} address ${access.address}, which is past the end of the stack (${this.stackBase}-${this.stackLimit - 1})`;
+						// Because this exception is non-critical, the exception handler may choose to ignore it
+						// Only stop execution if it does not
+						if (this.onException('stack-overflow', message, false)) return true;
+					} else if (access.address < this.stackBase) {
+						const message = `Stack underflow: Instruction at ${this.instructionPointer} attempted to ${operation} address ${access.address}, which is before the start of the stack (${this.stackBase}-${this.stackLimit - 1})`;
+						// Because this exception is non-critical, the exception handler may choose to ignore it
+						// Only stop execution if it does not
+						if (this.onException('stack-underflow', message, false)) return true;
+					}
+				}
+
 				// Throw an exception if the instruction attempts to access an invalid memory address
 				if (access.address < 0 || access.address > 255) {
 					const message = `Instruction at ${this.instructionPointer} attempted to access invalid memory address ${access.address}`;
@@ -1327,20 +2079,29 @@ export class HMMMRuntime extends EventEmitter {
 				}
 
 				// Throw an exception if the instruction attempts to access the code segment
-				if (access.address < this._numInstructions) {
+				// (Data placed by .word or .fill is meant to be accessed, so it is not considered part of the code segment)
+				if (this.isInCodeSegment(access.address)) {
 					if (access.accessType === 'read') {
 						const message = `Instruction at ${this.instructionPointer} attempted to read from the code segment at address ${access.address}`;
 						// Because this exception is non-critical, the exception handler may choose to ignore it
-						// Only stop execution if the it does not
+						// Only stop execution if it does not
 						if (this.onException('cs-read', message, false)) return true;
 					} else if (access.accessType === 'write') {
 						const message = `Instruction at ${this.instructionPointer} attempted to write to the code segment at address ${access.address}`;
 						// Because this exception is non-critical, the exception handler may choose to ignore it
-						// Only stop execution if the it does not
+						// Only stop execution if it does not
 						if (this.onException('cs-write', message, false)) return true;
 					}
 				}
 
+				// Throw an exception if the instruction reads from a memory address which has never been written to
+				if (access.accessType === 'read' && !this.isMemoryInitialized(access.address)) {
+					const message = `Instruction at ${this.instructionPointer} attempted to read from memory address ${access.address}, which has not been initialized`;
+					// Because this exception is non-critical, the exception handler may choose to ignore it
+					// Only stop execution if it does not
+					if (this.onException('uninitialized-read', message, false)) return true;
+				}
+
 				// The remaining breakpoints can be masked by _ignoreBreakpoints
 				if (this._ignoreBreakpoints) continue;
 
@@ -1363,16 +2124,190 @@ export class HMMMRuntime extends EventEmitter {
 		return false;
 	}
 
+	/**
+	 * Checks whether the current instruction will produce an arithmetic result which cannot be represented as a signed 16-bit number
+	 * (and would therefore be truncated when stored in a register)
+	 * @param parsedInstruction The components of the current instruction
+	 * @returns true if an exception was hit (and execution should stop), false otherwise
+	 */
+	private checkArithmeticOverflow(parsedInstruction: ParsedHMMMInstructionComponents): boolean {
+		const [_binaryInstruction, instruction, rX, rY, rZ, N] = parsedInstruction;
+
+		/**
+		 * Gets the value of a register as a signed number (which is how values are displayed to the user)
+		 * @param register The register to read
+		 * @returns The signed value of the register
+		 */
+		const signedRegister = (register: number) => s16IntToNumber(this._registers[register]);
+
+		// The operation performed by the instruction (with the values of its operands) and its true result
+		let operation: string;
+		let result: number;
+
+		switch (instruction.instruction.name) {
+			case 'addn':
+				operation = `${signedRegister(rX!)} + ${N}`;
+				result = signedRegister(rX!) + N!;
+				break;
+			case 'add':
+				operation = `${signedRegister(rY!)} + ${signedRegister(rZ!)}`;
+				result = signedRegister(rY!) + signedRegister(rZ!);
+				break;
+			case 'sub':
+				operation = `${signedRegister(rY!)} - ${signedRegister(rZ!)}`;
+				result = signedRegister(rY!) - signedRegister(rZ!);
+				break;
+			case 'mul':
+				operation = `${signedRegister(rY!)} * ${signedRegister(rZ!)}`;
+				result = signedRegister(rY!) * signedRegister(rZ!);
+				break;
+			case 'neg':
+				operation = `-(${signedRegister(rY!)})`;
+				result = -signedRegister(rY!);
+				break;
+			case 'div':
+				// Division by zero is reported by checkDivideByZero instead
+				if (signedRegister(rZ!) === 0) return false;
+				// Only -32768 // -1 can overflow, since the magnitude of the quotient can't be larger than the magnitude of the dividend
+				operation = `${signedRegister(rY!)} // ${signedRegister(rZ!)}`;
+				result = Math.floor(signedRegister(rY!) / signedRegister(rZ!));
+				break;
+			default:
+				// The instruction doesn't perform any arithmetic which can overflow
+				return false;
+		}
+
+		// The result fits in a register, so nothing will be lost
+		if (result >= -32768 && result <= 32767) return false;
+
+		const message = `Arithmetic overflow at ${this.instructionPointer} (${decompileInstruction(instruction)}): ${operation} = ${result}, which is outside the range of a signed 16-bit number (-32768 to 32767). The result will be stored as ${s16IntToNumber(result & 0xFFFF)}`;
+		// Because this exception is non-critical, the exception handler may choose to ignore it
+		// Only stop execution if it does not
+		return this.onException('arithmetic-overflow', message, false);
+	}
+
+	/**
+	 * Checks whether the current instruction will divide (or take the modulo of) a number by zero
+	 * @param parsedInstruction The components of the current instruction
+	 * @returns true if an exception was hit (and execution should stop), false otherwise
+	 */
+	private checkDivideByZero(parsedInstruction: ParsedHMMMInstructionComponents): boolean {
+		const [_binaryInstruction, instruction, _rX, _rY, rZ, _N] = parsedInstruction;
+
+		// Only div and mod divide by a value
+		if (instruction.instruction.name !== 'div' && instruction.instruction.name !== 'mod') return false;
+
+		if (this._registers[rZ!] !== 0) return false;
+
+		// Dividing by zero produces Infinity or NaN, both of which are stored as 0
+		const message = `Division by zero at ${this.instructionPointer} (${decompileInstruction(instruction)}): r${rZ} is 0. ${this._divideByZeroIsCritical ? 'Execution will be terminated' : 'The result will be stored as 0'}`;
+		return this.onException('divide-by-zero', message, this._divideByZeroIsCritical);
+	}
+
+	/**
+	 * Checks whether the program has already executed the maximum number of instructions it is allowed to
+	 * @returns true if an exception was hit (and execution should stop), false otherwise
+	 */
+	private checkStepLimit(): boolean {
+		if (this._maxSteps === 0 || this._executedInstructionCount < this._stepLimit) return false;
+
+		// When running without debugging, there is no way to continue, so the program must be terminated
+		if (this._noDebug) {
+			const message = `Step limit exceeded: the program executed ${this._maxSteps} instructions without halting. Execution will be terminated`;
+			return this.onException('step-limit', message, true);
+		}
+
+		// If the user continues, allow the program to execute another _maxSteps instructions before stopping again
+		this._stepLimit = this._executedInstructionCount + this._maxSteps;
+
+		const message = `Step limit exceeded: the program executed ${this._executedInstructionCount} instructions without halting. Continuing will allow another ${this._maxSteps} instructions`;
+		return this.onException('step-limit', message, false);
+	}
+
+	/**
+	 * Checks whether the machine has returned to exactly the same state (instruction pointer, registers, and memory) as the loop snapshot.
+	 * HMMM is deterministic, so if this happens without reading any input, the program will repeat the same instructions forever
+	 * @returns true if an exception was hit (and execution should stop), false otherwise
+	 */
+	private checkInfiniteLoop(): boolean {
+		const state = this._loopSnapshot;
+
+		if (state && this.isCurrentState(state)) {
+			const cycleLength = this._loopSteps;
+			const addresses = [...this._loopAddresses].sort((a, b) => a - b);
+
+			// If the user continues, the loop will have to be detected again
+			this.resetLoopDetector();
+
+			const message = `Infinite loop detected: the machine returned to exactly the same state after ${cycleLength} instruction${cycleLength === 1 ? '' : 's'} ` +
+				`(at address${addresses.length === 1 ? '' : 'es'} ${addresses.join(', ')}) without reading any input, so it will never halt.${this._noDebug ? ' Execution will be terminated' : ''}`;
+			return this.onException('infinite-loop', message, this._noDebug);
+		}
+
+		// Take a new snapshot once the number of steps since the last one reaches the current power of two
+		if (!state || this._loopSteps >= this._loopSnapshotPower) {
+			this._loopSnapshot = this.getCurrentState();
+			this._loopSnapshotPower = state ? this._loopSnapshotPower * 2 : 1;
+			this._loopSteps = 0;
+			this._loopAddresses.clear();
+		}
+
+		this._loopSteps++;
+		this._loopAddresses.add(this.instructionPointer);
+		return false;
+	}
+
+	/**
+	 * Determines whether the machine is in exactly the given state. This is called on every step, so the cheapest comparisons are made first
+	 * (The instruction pointer and registers usually differ, so memory is rarely compared)
+	 * @param state The state to compare to
+	 * @returns true if the instruction pointer, registers, and memory all match the state, false otherwise
+	 */
+	private isCurrentState(state: HMMMState): boolean {
+		return state.instructionPointer === this.instructionPointer &&
+			state.registers.every((value, i) => value === this._registers[i]) &&
+			state.memory.every((value, i) => value === this._memory[i]);
+	}
+
+	/**
+	 * Discards the loop snapshot, so that loops are only detected once the machine has executed the loop again
+	 */
+	private resetLoopDetector() {
+		this._loopSnapshot = undefined;
+		this._loopSteps = 0;
+		this._loopAddresses.clear();
+	}
+
+	/**
+	 * Checks for critical exceptions resulting from the reads/writes that the current instruction will perform.
+	 * Unlike checkAccesses, this ignores breakpoints and non-critical exceptions (which can only stop execution while debugging)
+	 * @returns true if an exception was hit (and execution should stop), false otherwise
+	 */
+	private checkCriticalAccesses(): boolean {
+		for (const access of this.determineAccesses()) {
+			// Throw an exception if the instruction attempts to access an invalid memory address
+			if (access.dataType === 'memory' && (access.address < 0 || access.address > 255)) {
+				const message = `Instruction at ${this.instructionPointer} attempted to access invalid memory address ${access.address}`;
+				this.onException('invalid-memory-access', message, true);
+				// This is a critical exception, so if it occurs, we always need to stop execution
+				return true;
+			}
+		}
+
+		// Nothing stopped execution, so return false (continue execution)
+		return false;
+	}
+
 	/**
 	 * Checks for breakpoints/exceptions resulting from reading the current instruction from memory
 	 * @returns true if a breakpoint/exception was hit (and execution should stop), false otherwise
 	 */
 	private checkInstructionExecutionAccess(): boolean {
-		// Throw an exception if the instruction pointer is outside of the code segment
-		if (this.instructionPointer >= this._numInstructions) {
+		// Throw an exception if the instruction pointer is outside of the code segment (or points to data)
+		if (this.instructionPointer >= 0 && !this.isInCodeSegment(this.instructionPointer)) {
 			const message = `Attempted to execute an instruction outside of the code segment at address ${this.instructionPointer}`;
 			// Because this exception is non-critical, the exception handler may choose to ignore it
-			// Only stop execution if the it does not
+			// Only stop execution if it does not
 			if (this.onException('execute-outside-cs', message, false)) {
 				return true;
 			}
@@ -1452,9 +2387,10 @@ export class HMMMRuntime extends EventEmitter {
 	/**
 	 * Prints output from the debugger to the debugger console
 	 * @param message The message to print
+	 * @param line The source line the message refers to (if any)
 	 */
-	private debuggerOutput(message: string) {
-		this.sendEvent('output', message, 'console', undefined);
+	private debuggerOutput(message: string, line?: number) {
+		this.sendEvent('output', message, 'console', line);
 	}
 
 	/**
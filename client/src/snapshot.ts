@@ -0,0 +1,127 @@
+import { s16IntToNumber } from './helperfunctions';
+import { HMMMState } from './runtime';
+
+//#region Types
+
+/**
+ * The state of a HMMM machine as it is saved in a snapshot file. Values are saved as signed numbers, so the file is easy to read
+ */
+export interface HMMMSnapshot {
+	/**
+	 * The version of the snapshot format (incremented if the format changes)
+	 */
+	version: 1;
+	/**
+	 * The address of the next instruction to execute
+	 */
+	instructionPointer: number;
+	/**
+	 * The values of r0 to r15
+	 */
+	registers: number[];
+	/**
+	 * The values of memory addresses 0 to 255
+	 */
+	memory: number[];
+	/**
+	 * The registers that have been modified since the machine was started
+	 */
+	modifiedRegisters: number[];
+	/**
+	 * The memory addresses that have been modified since the machine was started
+	 */
+	modifiedMemory: number[];
+	/**
+	 * The number of instructions that had been executed when the snapshot was saved
+	 */
+	executedInstructionCount: number;
+}
+
+/**
+ * The result of parsing a snapshot file
+ */
+export interface HMMMSnapshotParseResult {
+	/**
+	 * The state saved in the snapshot (if the file is valid)
+	 */
+	state?: HMMMState;
+	/**
+	 * A message describing why the file is invalid (if it is invalid)
+	 */
+	error?: string;
+}
+
+//#endregion
+
+//#region Conversion
+
+/**
+ * Converts the state of a machine into a snapshot which can be saved to a file
+ * @param state The state to save
+ * @returns The snapshot
+ */
+export function createSnapshot(state: HMMMState): HMMMSnapshot {
+	return {
+		version: 1,
+		instructionPointer: state.instructionPointer,
+		registers: state.registers.map(s16IntToNumber),
+		memory: state.memory.map(s16IntToNumber),
+		modifiedRegisters: [...state.modifiedRegisters].sort((a, b) => a - b),
+		modifiedMemory: [...state.modifiedMemory].sort((a, b) => a - b),
+		executedInstructionCount: state.executedInstructionCount
+	};
+}
+
+/**
+ * Determines whether a value is an array of integers within a range
+ * @param value The value to check
+ * @param min The smallest allowed integer
+ * @param max The largest allowed integer
+ * @param length The required length of the array (if any)
+ * @returns true if the value is a valid array, false otherwise
+ */
+function isIntegerArray(value: unknown, min: number, max: number, length?: number): value is number[] {
+	return Array.isArray(value) && (length === undefined || value.length === length) &&
+		value.every(entry => Number.isInteger(entry) && entry >= min && entry <= max);
+}
+
+/**
+ * Parses and validates the contents of a snapshot file
+ * @param text The contents of the file
+ * @returns The state saved in the snapshot or an error describing why it is invalid
+ */
+export function parseSnapshot(text: string): HMMMSnapshotParseResult {
+	let snapshot: Partial<Record<keyof HMMMSnapshot, unknown>>;
+	try {
+		snapshot = JSON.parse(text);
+	} catch (e) {
+		return { error: `Invalid JSON: ${e instanceof Error ? e.message : e}` };
+	}
+
+	if (typeof snapshot !== 'object' || snapshot === null) return { error: 'A snapshot must be an object' };
+	if (snapshot.version !== 1) return { error: `Unsupported snapshot version: ${snapshot.version}` };
+
+	const { instructionPointer, registers, memory, modifiedRegisters, modifiedMemory, executedInstructionCount } = snapshot;
+
+	// Values may be saved as either signed or unsigned 16-bit numbers
+	if (!Number.isInteger(instructionPointer) || (instructionPointer as number) < 0 || (instructionPointer as number) > 255) return { error: 'instructionPointer must be an address (0 to 255)' };
+	if (!isIntegerArray(registers, -32768, 65535, 16)) return { error: 'registers must contain 16 values between -32768 and 65535' };
+	if (!isIntegerArray(memory, -32768, 65535, 256)) return { error: 'memory must contain 256 values between -32768 and 65535' };
+	if (!isIntegerArray(modifiedRegisters, 0, 15)) return { error: 'modifiedRegisters must contain registers (0 to 15)' };
+	if (!isIntegerArray(modifiedMemory, 0, 255)) return { error: 'modifiedMemory must contain addresses (0 to 255)' };
+	if (!Number.isInteger(executedInstructionCount) || (executedInstructionCount as number) < 0) return { error: 'executedInstructionCount must be a non-negative integer' };
+
+	return {
+		state: {
+			instructionPointer: instructionPointer as number,
+			// r0 is always 0, no matter what the snapshot says
+			registers: registers.map((value, i) => i === 0 ? 0 : value & 0xFFFF),
+			memory: memory.map(value => value & 0xFFFF),
+			modifiedRegisters: new Set(modifiedRegisters),
+			modifiedMemory: new Set(modifiedMemory),
+			executedInstructionCount: executedInstructionCount as number
+		}
+	};
+}
+
+//#endregion
@@ -0,0 +1,114 @@
+import * as assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+
+const cli = join(__dirname, '..', 'cli.js');
+const dir = mkdtempSync(join(tmpdir(), 'hmmm-cli-'));
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+/**
+ * Writes a file into the temporary directory
+ * @param name The name of the file
+ * @param lines The lines of the file
+ * @returns The path to the file
+ */
+function writeFile(name: string, lines: string[]): string {
+	const file = join(dir, name);
+	writeFileSync(file, lines.join('\n'));
+	return file;
+}
+
+/**
+ * Runs the command line tool
+ * @param args The arguments to pass to the tool
+ * @param input The text to pass to the tool on stdin
+ * @returns The exit code and the text written to stdout and stderr
+ */
+function hmmm(args: string[], input = '') {
+	const { status, stdout, stderr } = spawnSync(process.execPath, [cli, ...args], { input, encoding: 'utf8', timeout: 30000 });
+	return { status, stdout, stderr };
+}
+
+describe('hmmm assemble', () => {
+	it('writes the binary to stdout or the output file', () => {
+		const file = writeFile('valid.hmmm', ['0 setn r1 5', '1 write r1', '2 halt']);
+		const binary = '0001 0001 0000 0101\n0000 0001 0000 0010\n0000 0000 0000 0000\n';
+
+		assert.deepEqual(hmmm(['assemble', file]), { status: 0, stdout: binary, stderr: '' });
+
+		const output = join(dir, 'valid.hb');
+		assert.equal(hmmm(['assemble', file, '-o', output]).status, 0);
+		assert.equal(readFileSync(output).toString(), binary);
+	});
+
+	it('reports errors and exits with 1', () => {
+		const file = writeFile('invalid.hmmm', ['0 setn r1 5', '2 halt']);
+		assert.deepEqual(hmmm(['assemble', file]), { status: 1, stdout: '', stderr: `${file}:2:1 error: Incorrect line number! Should be 1 (incorrect_line_num)\n` });
+	});
+});
+
+describe('hmmm disassemble', () => {
+	it('numbers each instruction by its address', () => {
+		const file = writeFile('program.hb', ['0001 0001 0000 0101', '', '0000 0000 0000 0000']);
+		assert.deepEqual(hmmm(['disassemble', file]), { status: 0, stdout: '0 setn r1 5\n\n1 halt\n', stderr: '' });
+	});
+
+	it('still writes the assembly for an invalid binary, but reports the errors and exits with 1', () => {
+		const file = writeFile('invalid.hb', ['not binary', '0000 0000 0000 0000']);
+		assert.deepEqual(hmmm(['disassemble', file]), { status: 1, stdout: '# Invalid binary: not binary\n0 halt\n', stderr: `${file}:1:1 error: Invalid Instruction (invalid_instruction)\n` });
+	});
+});
+
+describe('hmmm run', () => {
+	it('reads from stdin and writes to stdout', () => {
+		const file = writeFile('add.hmmm', ['0 read r1', '1 read r2', '2 add r3 r1 r2', '3 write r3', '4 halt']);
+		assert.deepEqual(hmmm(['run', file], '3\n-5\n'), { status: 0, stdout: '-2\n', stderr: '' });
+	});
+
+	it('exits with 3 if the program encounters an error', () => {
+		const file = writeFile('crash.hmmm', ['0 setn r1 -1', '1 loadr r2 r1', '2 halt']);
+		assert.deepEqual(hmmm(['run', file]), { status: 3, stdout: '', stderr: 'Instruction at 1 attempted to access invalid memory address 65535\n' });
+	});
+});
+
+describe('hmmm check', () => {
+	it('prints the errors in each file as JSON', () => {
+		const valid = writeFile('check-valid.hmmm', ['0 halt']);
+		const invalid = writeFile('check-invalid.hmmm', ['0 foo']);
+		const { status, stdout } = hmmm(['check', valid, invalid]);
+		assert.equal(status, 1);
+		const results = JSON.parse(stdout);
+		assert.deepEqual(results.map((result: { file: string, errors: { code: string }[] }) => [result.file, result.errors.map(error => error.code)]), [
+			[valid, []],
+			[invalid, ['invalid_instruction']]
+		]);
+	});
+});
+
+describe('hmmm test', () => {
+	it('runs the cases in a program\'s test file and exits with 4 if any fail', () => {
+		const program = writeFile('double.hmmm', ['0 read r1', '1 add r1 r1 r1', '2 write r1', '3 halt']);
+		writeFile('double.test.json', [JSON.stringify({ cases: [{ name: 'Positive', input: [2], output: [4] }, { name: 'Wrong', input: [3], output: [5] }] })]);
+
+		const { status, stdout } = hmmm(['test', program]);
+		assert.equal(status, 4);
+		assert.ok(stdout.endsWith('\n1 passed, 1 failed\n'));
+
+		writeFile('double.test.json', [JSON.stringify({ cases: [{ input: [-3], output: [-6], registers: { r1: -6 } }] })]);
+		assert.equal(hmmm(['test', program]).status, 0);
+	});
+});
+
+describe('hmmm usage errors', () => {
+	it('exit with 2', () => {
+		assert.equal(hmmm([]).status, 2);
+		assert.equal(hmmm(['frobnicate']).status, 2);
+		assert.equal(hmmm(['assemble']).status, 2);
+		assert.equal(hmmm(['assemble', join(dir, 'missing.hmmm')]).status, 2);
+		assert.equal(hmmm(['assemble', '-x']).status, 2);
+	});
+});
@@ -0,0 +1,60 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { HMMMCoverage, describeLineCoverage, formatLCOV, getCoverageStatus, isConditionalJump } from '../coverage';
+
+const coverage: HMMMCoverage = {
+	lines: [
+		{ line: 0, address: 0, count: 1 },
+		{ line: 2, address: 1, count: 3, branch: { taken: 2, notTaken: 1 } },
+		{ line: 3, address: 2, count: 1, branch: { taken: 0, notTaken: 1 } },
+		{ line: 4, address: 3, count: 0, branch: { taken: 0, notTaken: 0 } },
+		{ line: 5, address: 4, count: 0 }
+	]
+};
+
+describe('isConditionalJump', () => {
+	it('only matches conditional jumps', () => {
+		assert.ok(['jeqzn', 'jnezn', 'jgtzn', 'jltzn'].every(isConditionalJump));
+		assert.ok(!['jumpn', 'jumpr', 'calln', 'halt'].some(isConditionalJump));
+	});
+});
+
+describe('getCoverageStatus', () => {
+	it('marks lines as covered, partially covered, or uncovered', () => {
+		assert.deepEqual(coverage.lines.map(getCoverageStatus), ['covered', 'covered', 'partial', 'uncovered', 'uncovered']);
+	});
+});
+
+describe('describeLineCoverage', () => {
+	it('describes execution counts and branch directions', () => {
+		assert.equal(describeLineCoverage(coverage.lines[0]), 'Executed once');
+		assert.equal(describeLineCoverage(coverage.lines[1]), 'Executed 3 times (jump taken 2 times, not taken once)');
+		assert.equal(describeLineCoverage(coverage.lines[4]), 'Never executed');
+	});
+});
+
+describe('formatLCOV', () => {
+	it('reports one-based lines and both directions of each branch', () => {
+		assert.equal(formatLCOV(coverage, '/programs/loop.hmmm'), [
+			'TN:',
+			'SF:/programs/loop.hmmm',
+			'BRDA:3,0,0,2',
+			'BRDA:3,0,1,1',
+			'BRDA:4,0,0,0',
+			'BRDA:4,0,1,1',
+			'BRDA:5,0,0,-',
+			'BRDA:5,0,1,-',
+			'BRF:6',
+			'BRH:3',
+			'DA:1,1',
+			'DA:3,3',
+			'DA:4,1',
+			'DA:5,0',
+			'DA:6,0',
+			'LF:5',
+			'LH:3',
+			'end_of_record',
+			''
+		].join('\n'));
+	});
+});
@@ -0,0 +1,140 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { HMMMExpressionState, compileExpression, compileHitCondition, compileMemoryRange, compileMessageTemplate } from '../expressions';
+
+/**
+ * Creates a machine state for expressions to be evaluated against
+ * @param registers The values of the registers to set (all others are 0)
+ * @param memory The values of the memory addresses to set (all others are 0)
+ * @returns The machine state
+ */
+function createState(registers: Record<number, number> = {}, memory: Record<number, number> = {}): HMMMExpressionState {
+	const state: HMMMExpressionState = { instructionPointer: 7, registers: Array(16).fill(0), memory: Array(256).fill(0) };
+	Object.entries(registers).forEach(([register, value]) => state.registers[Number(register)] = value & 0xFFFF);
+	Object.entries(memory).forEach(([address, value]) => state.memory[Number(address)] = value & 0xFFFF);
+	return state;
+}
+
+/**
+ * Compiles and evaluates an expression, failing the test if it doesn't compile
+ * @param expression The expression to evaluate
+ * @param state The machine state to evaluate it against
+ * @returns The value of the expression
+ */
+function evaluate(expression: string, state = createState()): number | undefined {
+	const result = compileExpression(expression);
+	assert.ok(result.expression, result.error);
+	return result.expression(state);
+}
+
+describe('compileExpression', () => {
+	it('follows C operator precedence', () => {
+		assert.equal(evaluate('1 + 2 * 3'), 7);
+		assert.equal(evaluate('(1 + 2) * 3'), 9);
+		assert.equal(evaluate('1 << 2 + 1'), 8);
+		assert.equal(evaluate('1 | 2 ^ 3 & 1'), 3);
+		assert.equal(evaluate('1 + 1 == 2 && 3 < 2 || 4 >= 4'), 1);
+		assert.equal(evaluate('-2 * -3'), 6);
+		assert.equal(evaluate('!0 + ~0'), 0);
+	});
+
+	it('evaluates operators with the same precedence from left to right', () => {
+		assert.equal(evaluate('10 - 4 - 3'), 3);
+		assert.equal(evaluate('64 / 4 / 2'), 8);
+		assert.equal(evaluate('7 % 4 * 2'), 6);
+	});
+
+	it('divides like the div and mod instructions', () => {
+		assert.equal(evaluate('-7 / 2'), -4);
+		assert.equal(evaluate('-7 % 2'), 1);
+		assert.equal(evaluate('7 % -2'), -1);
+		assert.equal(evaluate('1 / 0'), undefined);
+		assert.equal(evaluate('1 % 0'), undefined);
+	});
+
+	it('parses decimal, hexadecimal, and binary numbers', () => {
+		assert.equal(evaluate('0x1F + 0b101 + 10'), 46);
+	});
+
+	it('reads registers, memory, and the instruction pointer as signed numbers', () => {
+		const state = createState({ 1: -1, 15: 101 }, { 100: 42, 200: -5 });
+		assert.equal(evaluate('r1', state), -1);
+		assert.equal(evaluate('R1', state), -1);
+		assert.equal(evaluate('[r15 - 1]', state), 42);
+		assert.equal(evaluate('[200]', state), -5);
+		assert.equal(evaluate('pc', state), 7);
+	});
+
+	it('casts the lower 16 bits of a value', () => {
+		const state = createState({ 1: -1 });
+		assert.equal(evaluate('(unsigned) r1', state), 65535);
+		assert.equal(evaluate('( signed ) 65535'), -1);
+		assert.equal(evaluate('(signed) 32768'), -32768);
+	});
+
+	it('fails to evaluate memory accesses outside of memory', () => {
+		assert.equal(evaluate('[256]'), undefined);
+		assert.equal(evaluate('[-1]'), undefined);
+	});
+
+	it('short circuits logical operators', () => {
+		assert.equal(evaluate('r1 != 0 && 10 / r1 > 2'), 0);
+		assert.equal(evaluate('r1 == 0 || 10 / r1 > 2'), 1);
+		assert.equal(evaluate('r1 == 0 && 10 / r1 > 2'), undefined);
+	});
+
+	it('reports invalid expressions', () => {
+		assert.equal(compileExpression('').error, 'Expression is empty');
+		assert.equal(compileExpression('1 +').error, 'Unexpected end of expression');
+		assert.equal(compileExpression('(1 + 2').error, 'Expected \')\'');
+		assert.equal(compileExpression('[1 + 2').error, 'Expected \']\'');
+		assert.equal(compileExpression('1 2').error, 'Unexpected \'2\'');
+		assert.equal(compileExpression('r16').error, 'Invalid register \'r16\'');
+		assert.equal(compileExpression('1 $ 2').error, 'Unexpected character \'$\'');
+	});
+});
+
+describe('compileHitCondition', () => {
+	it('compiles each operator', () => {
+		assert.deepEqual([1, 2, 3, 4].map(compileHitCondition('3')!), [false, false, true, true]);
+		assert.deepEqual([1, 2, 3, 4].map(compileHitCondition('== 3')!), [false, false, true, false]);
+		assert.deepEqual([1, 2, 3, 4].map(compileHitCondition('< 3')!), [true, true, false, false]);
+		assert.deepEqual([1, 2, 3, 4].map(compileHitCondition('% 2')!), [false, true, false, true]);
+		assert.deepEqual([1, 2, 3, 4].map(compileHitCondition('% 0')!), [false, false, false, false]);
+	});
+
+	it('rejects invalid hit conditions', () => {
+		assert.equal(compileHitCondition('r1'), undefined);
+		assert.equal(compileHitCondition('!= 3'), undefined);
+	});
+});
+
+describe('compileMessageTemplate', () => {
+	it('replaces placeholders and escaped braces', () => {
+		const { template, error } = compileMessageTemplate('r1={r1} {{literal}} at {instruction}: {1 / 0}');
+		assert.ok(template, error);
+		assert.equal(template(createState({ 1: 5 }), 'addn r1 1'), 'r1=5 {literal} at addn r1 1: <error>');
+	});
+
+	it('reports unmatched braces and invalid expressions', () => {
+		assert.equal(compileMessageTemplate('r1={r1').error, 'Unmatched \'{\' (Use \'{{\' to include it in the message)');
+		assert.equal(compileMessageTemplate('{1 +}').error, 'Unexpected end of expression in {1 +}');
+	});
+});
+
+describe('compileMemoryRange', () => {
+	it('evaluates both ends of the range', () => {
+		const result = compileMemoryRange('[r15 - 3..r15 - 1]');
+		assert.ok(result?.range, result?.error);
+		assert.deepEqual(result.range(createState({ 15: 103 })), [100, 102]);
+		assert.equal(result.range(createState({ 15: 1 })), undefined);
+	});
+
+	it('ignores expressions which are not ranges', () => {
+		assert.equal(compileMemoryRange('[100]'), undefined);
+	});
+
+	it('reports invalid bounds', () => {
+		assert.equal(compileMemoryRange('[..10]')?.error, 'Expression is empty in the start of the range');
+	});
+});
@@ -0,0 +1,30 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { readMemoryBytes, writeMemoryBytes } from '../helperfunctions';
+
+describe('readMemoryBytes', () => {
+	const memory = [0x1234, 0xABCD, 0x00FF];
+
+	it('reads the high byte of each word first', () => {
+		assert.deepEqual(readMemoryBytes(memory, 0, 6), [0x12, 0x34, 0xAB, 0xCD, 0x00, 0xFF]);
+		assert.deepEqual(readMemoryBytes(memory, 1, 2), [0x34, 0xAB]);
+	});
+
+	it('only reads the part of the range which lies within memory', () => {
+		assert.deepEqual(readMemoryBytes(memory, -2, 3), [0x12]);
+		assert.deepEqual(readMemoryBytes(memory, 4, 10), [0x00, 0xFF]);
+		assert.deepEqual(readMemoryBytes(memory, 6, 2), []);
+	});
+});
+
+describe('writeMemoryBytes', () => {
+	const memory = [0x1234, 0xABCD, 0x00FF];
+
+	it('replaces whole words', () => {
+		assert.deepEqual([...writeMemoryBytes(memory, 2, [0x01, 0x02, 0x03, 0x04])], [[1, 0x0102], [2, 0x0304]]);
+	});
+
+	it('keeps the other byte of partially written words', () => {
+		assert.deepEqual([...writeMemoryBytes(memory, 1, [0x56, 0x78])], [[0, 0x1256], [1, 0x78CD]]);
+	});
+});
@@ -0,0 +1,462 @@
+import * as assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { s16IntToNumber } from '../helperfunctions';
+import { formatProfileSummary } from '../profiler';
+import { HMMMInputProvider, HMMMRuntime, HMMMRuntimeSettings, defaultRuntimeSettings } from '../runtime';
+
+const dir = mkdtempSync(join(tmpdir(), 'hmmm-runtime-'));
+let programCount = 0;
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+/**
+ * Loads a HMMM assembly program into a new runtime
+ * @param lines The lines of the program
+ * @param settings The settings to run the program with
+ * @param noDebug Whether to run the program without debugging
+ * @param inputProvider Provides the input for read instructions
+ * @returns The runtime the program was loaded into
+ */
+function load(lines: string[], settings: HMMMRuntimeSettings = defaultRuntimeSettings, noDebug = false, inputProvider: HMMMInputProvider = async () => undefined): HMMMRuntime {
+	const file = join(dir, `program${programCount++}.hmmm`);
+	writeFileSync(file, lines.join('\n'));
+
+	const runtime = new HMMMRuntime(inputProvider, message => assert.fail(message));
+	assert.ok(runtime.configure(file, 'hmmm', settings, noDebug));
+	return runtime;
+}
+
+/**
+ * Waits for the runtime to stop or end
+ * @param runtime The runtime to wait for
+ * @returns The name of the event followed by its arguments
+ */
+function waitForStop(runtime: HMMMRuntime): Promise<unknown[]> {
+	const events = ['stop', 'stopOnBreakpoint', 'end'];
+	return new Promise(resolve => {
+		const listeners = events.map(event => {
+			const listener = (...args: unknown[]) => {
+				events.forEach((name, i) => runtime.off(name, listeners[i]));
+				resolve([event, ...args]);
+			};
+			runtime.on(event, listener);
+			return listener;
+		});
+	});
+}
+
+/**
+ * Continues execution until the runtime stops or ends
+ * @param runtime The runtime to continue
+ * @returns The name of the event followed by its arguments
+ */
+function continueToStop(runtime: HMMMRuntime): Promise<unknown[]> {
+	const stopped = waitForStop(runtime);
+	runtime.continue();
+	return stopped;
+}
+
+/**
+ * Steps one instruction and waits for the runtime to stop or end
+ * @param runtime The runtime to step
+ * @param reverse Whether to step backwards
+ * @returns The name of the event followed by its arguments
+ */
+function stepToStop(runtime: HMMMRuntime, reverse = false): Promise<unknown[]> {
+	const stopped = waitForStop(runtime);
+	runtime.step(reverse);
+	return stopped;
+}
+
+/**
+ * Collects everything the program writes
+ * @param runtime The runtime to collect the output of
+ * @returns The text and category of every output event (which is updated as the program runs)
+ */
+function collectOutput(runtime: HMMMRuntime): [string, string][] {
+	const output: [string, string][] = [];
+	runtime.on('output', (text: string, category: string) => output.push([text, category]));
+	return output;
+}
+
+/**
+ * Gets the signed value of a register
+ * @param runtime The runtime to read the register from
+ * @param register The register to read
+ * @returns The value of the register
+ */
+function register(runtime: HMMMRuntime, register: number): number {
+	return s16IntToNumber(runtime.registers[register]);
+}
+
+describe('arithmetic', () => {
+	it('divides signed numbers, rounding down like Python', async () => {
+		const runtime = load(['0 setn r1 -7', '1 setn r2 2', '2 div r3 r1 r2', '3 mod r4 r1 r2', '4 mod r5 r2 r1', '5 halt']);
+		assert.deepEqual(await continueToStop(runtime), ['end']);
+		assert.deepEqual([register(runtime, 3), register(runtime, 4), register(runtime, 5)], [-4, 1, -5]);
+	});
+});
+
+describe('arithmetic overflow', () => {
+	const program = [
+		'0 setn r1 -128',
+		'1 setn r2 127',
+		'2 addn r2 1',
+		'3 mul r3 r1 r2 # -16384',
+		'4 add r4 r3 r3 # -32768',
+		'5 sub r5 r4 r2',
+		'6 setn r6 -1',
+		'7 div r7 r4 r6',
+		'8 halt'
+	];
+
+	it('stops when the exception is enabled', async () => {
+		const runtime = load(program);
+		runtime.setExceptionBreakpoint('arithmetic-overflow');
+
+		assert.equal((await continueToStop(runtime))[1], 'exception');
+		assert.deepEqual(runtime.getLastException(), ['arithmetic-overflow', 'Arithmetic overflow at 5 (sub r5 r4 r2): -32768 - 128 = -32896, which is outside the range of a signed 16-bit number (-32768 to 32767). The result will be stored as 32640']);
+
+		// The only quotient which can overflow
+		assert.equal((await continueToStop(runtime))[1], 'exception');
+		assert.equal(runtime.getLastException()[1].split(',')[0], 'Arithmetic overflow at 7 (div r7 r4 r6): -32768 // -1 = 32768');
+
+		assert.deepEqual(await continueToStop(runtime), ['end']);
+		assert.deepEqual([register(runtime, 5), register(runtime, 7)], [32640, -32768]);
+	});
+
+	it('is ignored when the exception is not enabled', async () => {
+		const runtime = load(program);
+		assert.deepEqual(await continueToStop(runtime), ['end']);
+	});
+
+	it('is ignored when running without debugging', async () => {
+		const runtime = load(program, defaultRuntimeSettings, true);
+		runtime.setExceptionBreakpoint('arithmetic-overflow');
+		assert.deepEqual(await continueToStop(runtime), ['end']);
+	});
+});
+
+describe('divide by zero', () => {
+	const program = ['0 setn r1 5', '1 setn r3 7', '2 div r3 r1 r2', '3 write r3', '4 halt'];
+
+	it('stores 0 and continues when the exception is not critical', async () => {
+		const runtime = load(program);
+		runtime.setExceptionBreakpoint('divide-by-zero');
+		const output = collectOutput(runtime);
+
+		assert.equal((await continueToStop(runtime))[1], 'exception');
+		assert.deepEqual(runtime.getLastException(), ['divide-by-zero', 'Division by zero at 2 (div r3 r1 r2): r2 is 0. The result will be stored as 0']);
+
+		assert.deepEqual(await continueToStop(runtime), ['end']);
+		assert.deepEqual(output, [['0', 'stdout']]);
+	});
+
+	it('terminates the program when the exception is critical, even without debugging', async () => {
+		for (const noDebug of [false, true]) {
+			const runtime = load(program, { ...defaultRuntimeSettings, divideByZeroIsCritical: true }, noDebug);
+			const output = collectOutput(runtime);
+
+			assert.deepEqual(await continueToStop(runtime), ['end']);
+			assert.deepEqual(output, [['Division by zero at 2 (div r3 r1 r2): r2 is 0. Execution will be terminated', 'stderr']]);
+			assert.equal(register(runtime, 3), 7);
+		}
+	});
+});
+
+describe('stack overflow and underflow', () => {
+	it('are detected when pushing past the end of the stack', async () => {
+		const runtime = load(['0 setn r15 10', '1 pushr r1 r15', '2 pushr r1 r15', '3 halt']);
+		runtime.setExceptionBreakpoint('stack-overflow');
+		assert.ok(runtime.setStackRegion(10, 11));
+
+		assert.equal((await continueToStop(runtime))[1], 'exception');
+		assert.deepEqual(runtime.getLastException(), ['stack-overflow', 'Stack overflow: Instruction at 2 attempted to push to address 11, which is past the end of the stack (10-10)']);
+	});
+
+	it('are detected when popping from before the start of the stack', async () => {
+		// By default, the stack starts immediately after the program
+		const runtime = load(['0 setn r15 3', '1 popr r1 r15', '2 halt']);
+		runtime.setExceptionBreakpoint('stack-underflow');
+
+		assert.equal((await continueToStop(runtime))[1], 'exception');
+		assert.deepEqual(runtime.getLastException(), ['stack-underflow', 'Stack underflow: Instruction at 1 attempted to pop from address 2, which is before the start of the stack (3-255)']);
+	});
+
+	it('require the stack region to be inside memory and after the program', () => {
+		const runtime = load(['0 halt']);
+		assert.equal(runtime.setStackRegion(undefined, 300), false);
+		assert.equal(runtime.setStackRegion(-1, undefined), false);
+		assert.equal(runtime.setStackRegion(20, 20), false);
+		assert.equal(runtime.setStackRegion(undefined, 1), false);
+		assert.deepEqual([runtime.stackBase, runtime.stackLimit], [1, 256]);
+	});
+});
+
+describe('uninitialized reads', () => {
+	it('are detected for registers', async () => {
+		const runtime = load(['0 setn r1 1', '1 add r3 r1 r2', '2 halt']);
+		runtime.setExceptionBreakpoint('uninitialized-read');
+
+		assert.equal((await continueToStop(runtime))[1], 'exception');
+		assert.deepEqual(runtime.getLastException(), ['uninitialized-read', 'Instruction at 1 attempted to read from r2, which has not been initialized']);
+	});
+
+	it('are detected for memory, but not for the program itself', async () => {
+		const runtime = load(['0 setn r1 50', '1 loadn r2 0', '2 loadr r2 r1', '3 halt']);
+		runtime.setExceptionBreakpoint('uninitialized-read');
+
+		assert.equal((await continueToStop(runtime))[1], 'exception');
+		assert.deepEqual(runtime.getLastException(), ['uninitialized-read', 'Instruction at 2 attempted to read from memory address 50, which has not been initialized']);
+	});
+
+	it('are detected again after stepping back over the first write', async () => {
+		const runtime = load(['0 setn r1 50', '1 storer r1 r1', '2 halt']);
+
+		await stepToStop(runtime);
+		await stepToStop(runtime);
+		assert.ok(runtime.isRegisterInitialized(1));
+		assert.ok(runtime.isMemoryInitialized(50));
+
+		await stepToStop(runtime, true);
+		assert.ok(runtime.isRegisterInitialized(1));
+		assert.equal(runtime.isMemoryInitialized(50), false);
+
+		await stepToStop(runtime, true);
+		assert.equal(runtime.isRegisterInitialized(1), false);
+	});
+});
+
+describe('conditional breakpoints', () => {
+	const program = ['0 setn r1 5', '1 addn r1 -1', '2 jnezn r1 1', '3 halt'];
+
+	it('are only hit when their condition is non-zero', async () => {
+		const runtime = load(program);
+		assert.ok(runtime.setSourceBreakpoint(1, 'r1 == 2').verified);
+
+		assert.equal((await continueToStop(runtime))[1], 'breakpoint');
+		assert.equal(register(runtime, 1), 2);
+		assert.deepEqual(await continueToStop(runtime), ['end']);
+	});
+
+	it('are only hit when their hit condition is met', async () => {
+		const runtime = load(program);
+		assert.ok(runtime.setSourceBreakpoint(1, 'r1 < 4', '% 2').verified);
+
+		// The hit count only includes the times the condition was met (r1 = 3, 2, 1)
+		assert.equal((await continueToStop(runtime))[1], 'breakpoint');
+		assert.equal(register(runtime, 1), 2);
+		assert.deepEqual(await continueToStop(runtime), ['end']);
+	});
+
+	it('are not verified when their conditions are invalid', () => {
+		const runtime = load(program);
+		assert.deepEqual(runtime.setSourceBreakpoint(1, 'r1 =='), { id: 1, verified: false, message: 'Invalid condition: Unexpected end of expression' });
+		assert.equal(runtime.setSourceBreakpoint(1, undefined, 'sometimes').verified, false);
+	});
+});
+
+describe('logpoints', () => {
+	it('print their message without pausing execution', async () => {
+		const runtime = load(['0 setn r1 3', '1 addn r1 -1', '2 jnezn r1 1', '3 halt']);
+		assert.ok(runtime.setSourceBreakpoint(1, undefined, '>= 2', 'r1={r1} {instruction}').verified);
+		const output = collectOutput(runtime);
+
+		assert.deepEqual(await continueToStop(runtime), ['end']);
+		assert.deepEqual(output, [['r1=2 addn r1 -1', 'console'], ['r1=1 addn r1 -1', 'console']]);
+	});
+
+	it('are not verified when their message is invalid', () => {
+		const runtime = load(['0 halt']);
+		assert.equal(runtime.setSourceBreakpoint(0, undefined, undefined, 'r1={r1').message, 'Invalid log message: Unmatched \'{\' (Use \'{{\' to include it in the message)');
+	});
+});
+
+describe('address breakpoints', () => {
+	const program = ['0 setn r1 3', '1 addn r1 -1', '2 jnezn r1 1', '3 halt'];
+
+	it('pause execution at an address with their own conditions', async () => {
+		const runtime = load(program);
+		const bp = runtime.setAddressBreakpoint(1, 'r1 == 1');
+		assert.deepEqual(bp, { id: 1, verified: true, instructionReference: '1' });
+
+		assert.deepEqual(await continueToStop(runtime), ['stopOnBreakpoint', 'instruction breakpoint', [1]]);
+		assert.equal(register(runtime, 1), 1);
+	});
+
+	it('are reported along with a source breakpoint on the same instruction', async () => {
+		const runtime = load(program);
+		const sourceBreakpoint = runtime.setSourceBreakpoint(1);
+		const addressBreakpoint = runtime.setAddressBreakpoint(1);
+
+		assert.deepEqual(await continueToStop(runtime), ['stopOnBreakpoint', 'breakpoint', [sourceBreakpoint.id, addressBreakpoint.id]]);
+	});
+
+	it('must be inside memory', () => {
+		const runtime = load(program);
+		assert.deepEqual(runtime.setAddressBreakpoint(256), { id: 1, verified: false, instructionReference: '256', message: 'Breakpoints can only be set on addresses 0-255' });
+	});
+});
+
+describe('getDisassembledInstruction', () => {
+	it('disassembles instructions and data in memory', () => {
+		const runtime = load(['0 setn r1 5', '1 .word -3', '2 halt']);
+		assert.deepEqual(runtime.getDisassembledInstruction(0), { address: '0', instructionBytes: '1105', instruction: 'setn r1 5', line: 0 });
+		assert.deepEqual(runtime.getDisassembledInstruction(1), { address: '1', instructionBytes: 'fffd', instruction: '.word -3', line: 1 });
+		assert.deepEqual(runtime.getDisassembledInstruction(10), { address: '10', instructionBytes: '0000', instruction: 'halt', line: undefined });
+		assert.deepEqual(runtime.getDisassembledInstruction(256), { address: '256', instruction: '', presentationHint: 'invalid' });
+	});
+});
+
+describe('execution trace', () => {
+	const program = ['0 setn r1 5', '1 setn r15 100', '2 pushr r1 r15', '3 write r1', '4 halt'];
+
+	it('records the values written by each step', async () => {
+		const runtime = load(program);
+		assert.deepEqual(await continueToStop(runtime), ['end']);
+		assert.deepEqual(runtime.trace, [
+			{ step: 1, address: 0, instruction: 'setn r1 5', registers: { r1: 5 }, memory: {}, output: undefined },
+			{ step: 2, address: 1, instruction: 'setn r15 100', registers: { r15: 100 }, memory: {}, output: undefined },
+			{ step: 3, address: 2, instruction: 'pushr r1 r15', registers: { r15: 101 }, memory: { 100: 5 }, output: undefined },
+			{ step: 4, address: 3, instruction: 'write r1', registers: {}, memory: {}, output: '5' },
+			{ step: 5, address: 4, instruction: 'halt', registers: {}, memory: {}, output: undefined }
+		]);
+	});
+
+	it('removes the steps which are reversed', async () => {
+		const runtime = load(program);
+		await stepToStop(runtime);
+		await stepToStop(runtime);
+		await stepToStop(runtime, true);
+		assert.equal(runtime.executedInstructionCount, 1);
+		assert.deepEqual(runtime.trace.map(entry => entry.instruction), ['setn r1 5']);
+	});
+});
+
+describe('profile', () => {
+	const program = [
+		'0 setn r15 50',
+		'1 setn r1 2',
+		'2 calln r14 6',
+		'3 addn r1 -1',
+		'4 jnezn r1 2',
+		'5 halt',
+		'6 pushr r1 r15',
+		'7 popr r2 r15',
+		'8 jumpr r14'
+	];
+
+	it('counts the work done by the program, even without debugging', async () => {
+		const runtime = load(program, defaultRuntimeSettings, true);
+		assert.deepEqual(await continueToStop(runtime), ['end']);
+		assert.equal(formatProfileSummary(runtime.profile), '15 instructions executed, 2 memory reads, 2 memory writes, 2 calls');
+		assert.deepEqual(runtime.profile.lineCounts, { 0: 1, 1: 1, 2: 2, 3: 2, 4: 2, 5: 1, 6: 2, 7: 2, 8: 2 });
+		assert.deepEqual(runtime.profile.addressCounts.slice(0, 10), [1, 1, 2, 2, 2, 1, 2, 2, 2, 0]);
+	});
+
+	it('is not changed by reverse execution', async () => {
+		const runtime = load(program);
+		await stepToStop(runtime);
+		await stepToStop(runtime);
+		await stepToStop(runtime, true);
+		assert.equal(runtime.profile.instructionsExecuted, 2);
+	});
+});
+
+describe('coverage', () => {
+	it('records which way each conditional jump went, comparing signed values', async () => {
+		const runtime = load(['0 setn r1 -1', '1 jgtzn r1 4', '2 jltzn r1 4', '3 halt', '4 halt']);
+		assert.deepEqual(await continueToStop(runtime), ['end']);
+		assert.deepEqual(runtime.coverage.lines.map(line => [line.address, line.count, line.branch]), [
+			[0, 1, undefined],
+			[1, 1, { taken: 0, notTaken: 1 }],
+			[2, 1, { taken: 1, notTaken: 0 }],
+			[3, 0, undefined],
+			[4, 1, undefined]
+		]);
+	});
+});
+
+describe('step limit', () => {
+	const program = ['0 addn r1 1', '1 jumpn 0'];
+	const settings = { ...defaultRuntimeSettings, maxSteps: 10 };
+
+	it('stops the program every maxSteps instructions while debugging', async () => {
+		const runtime = load(program, settings);
+		runtime.setExceptionBreakpoint('step-limit');
+
+		assert.equal((await continueToStop(runtime))[1], 'exception');
+		assert.deepEqual(runtime.getLastException(), ['step-limit', 'Step limit exceeded: the program executed 10 instructions without halting. Continuing will allow another 10 instructions']);
+
+		assert.equal((await continueToStop(runtime))[1], 'exception');
+		assert.equal(runtime.executedInstructionCount, 20);
+	});
+
+	it('terminates the program when running without debugging', async () => {
+		const runtime = load(program, settings, true);
+		const output = collectOutput(runtime);
+
+		assert.deepEqual(await continueToStop(runtime), ['end']);
+		assert.deepEqual(output, [['Step limit exceeded: the program executed 10 instructions without halting. Execution will be terminated', 'stderr']]);
+	});
+});
+
+describe('infinite loops', () => {
+	const program = ['0 setn r1 1', '1 jumpn 2', '2 jumpn 1'];
+
+	it('are detected when the machine returns to the same state', async () => {
+		const runtime = load(program);
+		runtime.setExceptionBreakpoint('infinite-loop');
+
+		assert.equal((await continueToStop(runtime))[1], 'exception');
+		assert.deepEqual(runtime.getLastException(), ['infinite-loop', 'Infinite loop detected: the machine returned to exactly the same state after 2 instructions (at addresses 1, 2) without reading any input, so it will never halt.']);
+	});
+
+	it('terminate the program when running without debugging', async () => {
+		const runtime = load(program, defaultRuntimeSettings, true);
+		const output = collectOutput(runtime);
+
+		assert.deepEqual(await continueToStop(runtime), ['end']);
+		assert.deepEqual(output, [['Infinite loop detected: the machine returned to exactly the same state after 2 instructions (at addresses 1, 2) without reading any input, so it will never halt. Execution will be terminated', 'stderr']]);
+	});
+
+	it('are not detected when detection is disabled', async () => {
+		const runtime = load(program, { ...defaultRuntimeSettings, maxSteps: 100, detectInfiniteLoops: false }, true);
+		const output = collectOutput(runtime);
+
+		assert.deepEqual(await continueToStop(runtime), ['end']);
+		assert.match(output[0][0], /^Step limit exceeded/);
+	});
+
+	it('are not reported for programs which read input', async () => {
+		// The program reads the same value forever, but it can't know that the input won't change
+		const runtime = load(['0 read r1', '1 jumpn 0'], { ...defaultRuntimeSettings, maxSteps: 100 }, true, async () => '5');
+		const output = collectOutput(runtime);
+
+		assert.deepEqual(await continueToStop(runtime), ['end']);
+		assert.match(output[0][0], /^Step limit exceeded/);
+	});
+});
+
+describe('restoreState', () => {
+	it('resumes the program from a state saved by another runtime', async () => {
+		const program = ['0 setn r1 5', '1 addn r1 1', '2 write r1', '3 halt'];
+
+		const original = load(program);
+		await stepToStop(original);
+		await stepToStop(original);
+		const state = original.getCurrentState();
+
+		const runtime = load(program);
+		runtime.restoreState(state);
+		const output = collectOutput(runtime);
+
+		assert.deepEqual(await continueToStop(runtime), ['end']);
+		assert.deepEqual(output, [['6', 'stdout']]);
+		assert.equal(runtime.executedInstructionCount, 4);
+		assert.deepEqual(runtime.trace.map(entry => entry.step), [3, 4]);
+	});
+});
@@ -0,0 +1,93 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { HMMMState } from '../runtime';
+import { HMMMSnapshot, createSnapshot, parseSnapshot } from '../snapshot';
+
+/**
+ * Creates a valid snapshot which tests can modify
+ * @returns The snapshot
+ */
+function createValidSnapshot(): HMMMSnapshot {
+	return {
+		version: 1,
+		instructionPointer: 4,
+		registers: Array(16).fill(0),
+		memory: Array(256).fill(0),
+		modifiedRegisters: [],
+		modifiedMemory: [],
+		executedInstructionCount: 12
+	};
+}
+
+describe('createSnapshot', () => {
+	it('saves values as signed numbers and sorts the modified locations', () => {
+		const state: HMMMState = {
+			instructionPointer: 3,
+			registers: Array(16).fill(0),
+			memory: Array(256).fill(0),
+			modifiedRegisters: new Set([2, 1]),
+			modifiedMemory: new Set([200, 100]),
+			executedInstructionCount: 5
+		};
+		state.registers[1] = 0xFFFF;
+		state.memory[100] = 0x8000;
+
+		const snapshot = createSnapshot(state);
+		assert.equal(snapshot.version, 1);
+		assert.equal(snapshot.registers[1], -1);
+		assert.equal(snapshot.memory[100], -32768);
+		assert.deepEqual(snapshot.modifiedRegisters, [1, 2]);
+		assert.deepEqual(snapshot.modifiedMemory, [100, 200]);
+	});
+});
+
+describe('parseSnapshot', () => {
+	it('restores a saved snapshot', () => {
+		const snapshot = createValidSnapshot();
+		snapshot.registers[1] = -1;
+		snapshot.memory[100] = 65535;
+		snapshot.modifiedRegisters = [1];
+		snapshot.modifiedMemory = [100];
+
+		const { state, error } = parseSnapshot(JSON.stringify(snapshot));
+		assert.ok(state, error);
+		assert.equal(state.instructionPointer, 4);
+		assert.equal(state.registers[1], 0xFFFF);
+		assert.equal(state.memory[100], 0xFFFF);
+		assert.deepEqual(state.modifiedRegisters, new Set([1]));
+		assert.deepEqual(state.modifiedMemory, new Set([100]));
+		assert.equal(state.executedInstructionCount, 12);
+	});
+
+	it('always sets r0 to 0', () => {
+		const snapshot = createValidSnapshot();
+		snapshot.registers[0] = 5;
+		assert.equal(parseSnapshot(JSON.stringify(snapshot)).state?.registers[0], 0);
+	});
+
+	it('rejects files which are not snapshots', () => {
+		assert.match(parseSnapshot('{').error!, /^Invalid JSON: /);
+		assert.equal(parseSnapshot('[]').error, 'Unsupported snapshot version: undefined');
+		assert.equal(parseSnapshot('null').error, 'A snapshot must be an object');
+		assert.equal(parseSnapshot(JSON.stringify({ ...createValidSnapshot(), version: 2 })).error, 'Unsupported snapshot version: 2');
+	});
+
+	it('rejects invalid values', () => {
+		/**
+		 * Parses a valid snapshot with one property replaced
+		 * @param property The property to replace
+		 * @param value The value to replace it with
+		 * @returns The error reported for the snapshot
+		 */
+		const errorWith = (property: keyof HMMMSnapshot, value: unknown) => parseSnapshot(JSON.stringify({ ...createValidSnapshot(), [property]: value })).error;
+
+		assert.equal(errorWith('instructionPointer', 256), 'instructionPointer must be an address (0 to 255)');
+		assert.equal(errorWith('instructionPointer', 1.5), 'instructionPointer must be an address (0 to 255)');
+		assert.equal(errorWith('registers', Array(15).fill(0)), 'registers must contain 16 values between -32768 and 65535');
+		assert.equal(errorWith('registers', [65536, ...Array(15).fill(0)]), 'registers must contain 16 values between -32768 and 65535');
+		assert.equal(errorWith('memory', Array(256).fill(-32769)), 'memory must contain 256 values between -32768 and 65535');
+		assert.equal(errorWith('modifiedRegisters', [16]), 'modifiedRegisters must contain registers (0 to 15)');
+		assert.equal(errorWith('modifiedMemory', ['1']), 'modifiedMemory must contain addresses (0 to 255)');
+		assert.equal(errorWith('executedInstructionCount', -1), 'executedInstructionCount must be a non-negative integer');
+	});
+});
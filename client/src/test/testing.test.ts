@@ -0,0 +1,111 @@
+import * as assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { HMMMTestCase, formatTestResult, getProgramForTestFile, getTestFileForProgram, loadTestSuite, runTestCase } from '../testing';
+
+// A program which reads two numbers and writes their quotient and remainder
+const divideProgram = [
+	'0 read r1',
+	'1 read r2',
+	'2 div r3 r1 r2',
+	'3 mod r4 r1 r2',
+	'4 write r3',
+	'5 write r4',
+	'6 halt'
+].join('\n');
+
+// A program which never halts
+const loopProgram = [
+	'0 addn r1 1',
+	'1 jumpn 0'
+].join('\n');
+
+describe('testing', () => {
+	let dir: string;
+
+	/**
+	 * Writes a file to the temporary directory used by the tests
+	 * @param name The name of the file
+	 * @param contents The contents of the file (objects are written as JSON)
+	 * @returns The path to the file
+	 */
+	function writeTempFile(name: string, contents: string | object): string {
+		const path = join(dir, name);
+		writeFileSync(path, typeof contents === 'string' ? contents : JSON.stringify(contents));
+		return path;
+	}
+
+	before(() => dir = mkdtempSync(join(tmpdir(), 'hmmm-test-')));
+	after(() => rmSync(dir, { recursive: true, force: true }));
+
+	describe('test files', () => {
+		it('pairs programs with their test files', () => {
+			assert.equal(getTestFileForProgram(join(dir, 'pair.hmmm')), join(dir, 'pair.test.json'));
+
+			const testFile = writeTempFile('pair.test.json', { cases: [] });
+			assert.equal(getProgramForTestFile(testFile), undefined);
+			const binary = writeTempFile('pair.hb', '0000 0000 0000 0000');
+			assert.equal(getProgramForTestFile(testFile), binary);
+			const program = writeTempFile('pair.hmmm', '0 halt');
+			assert.equal(getProgramForTestFile(testFile), program);
+		});
+
+		it('loads valid test files', () => {
+			const suite = { maxSteps: 100, cases: [{ name: 'Divide', input: [7, 2], output: [3, 1], registers: { r3: 3 }, memory: { 100: 0 } }] };
+			assert.deepEqual(loadTestSuite(writeTempFile('valid.test.json', suite)), { suite });
+		});
+
+		it('rejects invalid test files', () => {
+			/**
+			 * Loads a test file with the given contents
+			 * @param contents The contents of the test file
+			 * @returns The error reported for the test file
+			 */
+			const errorFor = (contents: string | object) => loadTestSuite(writeTempFile('invalid.test.json', contents)).error;
+
+			assert.match(loadTestSuite(join(dir, 'missing.test.json')).error!, /^Test file not found: /);
+			assert.match(errorFor('{')!, /^Invalid JSON: /);
+			assert.equal(errorFor({}), 'A test file must be an object with a cases array');
+			assert.equal(errorFor({ maxSteps: 0, cases: [] }), 'maxSteps must be a positive integer');
+			assert.equal(errorFor({ cases: [[]] }), 'Case 1: must be an object');
+			assert.equal(errorFor({ cases: [{}, { input: ['1'] }] }), 'Case 2: input must be an array of numbers');
+			assert.equal(errorFor({ cases: [{ registers: { r0: 0 } }] }), 'Case 1: r0 is not a register (r1 to r15)');
+			assert.equal(errorFor({ cases: [{ memory: { 256: 0 } }] }), 'Case 1: 256 is not a memory address (0 to 255)');
+			assert.equal(errorFor({ cases: [{ maxSteps: 1.5 }] }), 'Case 1: maxSteps must be a positive integer');
+		});
+	});
+
+	describe('runTestCase', () => {
+		it('passes when the output and final state match', async () => {
+			const testCase: HMMMTestCase = { input: [-7, 2], output: [-4, 1], registers: { r3: -4, r4: 1 } };
+			const result = await runTestCase(writeTempFile('divide.hmmm', divideProgram), testCase, 0);
+			assert.deepEqual(result, { name: 'Case 1', passed: true, failures: [], output: [-4, 1], steps: 7 });
+		});
+
+		it('reports differences in the output and final state', async () => {
+			const testCase: HMMMTestCase = { name: 'Wrong', input: [7, 2], output: [3, 2], registers: { r4: 65535 } };
+			const result = await runTestCase(writeTempFile('divide.hmmm', divideProgram), testCase, 0);
+			assert.equal(result.passed, false);
+			assert.deepEqual(result.failures.map(failure => failure.message), ['Write 2 should be 2, but the program wrote 1', 'r4 should be 65535, but it is 1']);
+			assert.deepEqual(formatTestResult(result).slice(0, 4), ['FAIL Wrong (7 steps)', '    Write 2 should be 2, but the program wrote 1', '        3', '      - 2']);
+		});
+
+		it('fails when the program reads more input than provided', async () => {
+			const result = await runTestCase(writeTempFile('divide.hmmm', divideProgram), { input: [1] }, 0);
+			assert.deepEqual(result.failures.map(failure => failure.message), ['The program tried to read more than the 1 input values provided']);
+		});
+
+		it('stops programs at the step limit', async () => {
+			const result = await runTestCase(writeTempFile('loop.hmmm', loopProgram), {}, 0, { maxSteps: 50, cases: [] });
+			assert.equal(result.passed, false);
+			assert.equal(result.steps, 50);
+		});
+
+		it('fails programs which contain errors', async () => {
+			const result = await runTestCase(writeTempFile('invalid.hmmm', '0 jumpn nowhere'), {}, 0);
+			assert.deepEqual(result.failures.map(failure => failure.message), ['The program contains errors: Undefined label nowhere']);
+		});
+	});
+});
@@ -0,0 +1,43 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { HMMMTraceEntry, formatTrace, getTraceFormat } from '../trace';
+
+const trace: HMMMTraceEntry[] = [
+	{ step: 1, address: 0, instruction: 'setn r1 5', registers: { r1: 5 }, memory: {} },
+	{ step: 2, address: 1, instruction: 'pushr r1 r15', registers: { r15: 101 }, memory: { 100: -1 } },
+	{ step: 3, address: 2, instruction: 'write r1', registers: {}, memory: {}, output: '5' }
+];
+
+describe('formatTrace', () => {
+	it('formats one JSON object per step', () => {
+		const lines = formatTrace(trace, 'jsonl').split('\n');
+		assert.equal(lines.length, 4);
+		assert.equal(lines[3], '');
+		assert.equal(lines[0], '{"step":1,"address":0,"instruction":"setn r1 5","registers":{"r1":5},"memory":{},"output":null}');
+		assert.deepEqual(JSON.parse(lines[2]), { ...trace[2] });
+	});
+
+	it('formats one CSV row per step', () => {
+		assert.equal(formatTrace(trace, 'csv'), [
+			'step,address,instruction,registers,memory,output',
+			'1,0,setn r1 5,r1=5,,',
+			'2,1,pushr r1 r15,r15=101,100=-1,',
+			'3,2,write r1,,,5',
+			''
+		].join('\n'));
+	});
+
+	it('quotes CSV fields which contain commas or quotes', () => {
+		const entry: HMMMTraceEntry = { step: 1, address: 0, instruction: 'a,"b"', registers: {}, memory: {} };
+		assert.equal(formatTrace([entry], 'csv').split('\n')[1], '1,0,"a,""b""",,,');
+	});
+});
+
+describe('getTraceFormat', () => {
+	it('determines the format from the extension', () => {
+		assert.equal(getTraceFormat('trace.csv'), 'csv');
+		assert.equal(getTraceFormat('TRACE.CSV'), 'csv');
+		assert.equal(getTraceFormat('trace.jsonl'), 'jsonl');
+		assert.equal(getTraceFormat('trace.txt'), 'jsonl');
+	});
+});
@@ -0,0 +1,348 @@
+import { readFileSync } from 'fs';
+import { basename, extname } from 'path';
+import {
+	CancellationToken,
+	DebugConfiguration,
+	Disposable,
+	Location,
+	Position,
+	Range,
+	TestController,
+	TestItem,
+	TestMessage,
+	TestRun,
+	TestRunProfileKind,
+	TestRunRequest,
+	Uri,
+	debug,
+	tests,
+	workspace
+} from 'vscode';
+import { DEFAULT_MAX_STEPS, HMMMTestFailure, HMMMTestResult, HMMMTestSuite, formatTestResult, getProgramForTestFile, getTestCaseName, isTestFile, loadTestSuite, runTestCase } from './testing';
+
+//#region Helper Functions
+
+/**
+ * Finds where each test case starts in the text of a test file, so results can be shown next to the case they belong to.
+ * This only scans the brackets of the cases array (skipping strings), so it works even if the file can't be parsed
+ * @param text The text of the test file
+ * @returns The offset of the opening brace of each test case (in order)
+ */
+function findTestCaseOffsets(text: string): number[] {
+	const offsets: number[] = [];
+
+	const casesKey = text.search(/"cases"\s*:\s*\[/);
+	if (casesKey === -1) return offsets;
+
+	let depth = 0;
+	let inString = false;
+	for (let i = text.indexOf('[', casesKey); i < text.length; i++) {
+		const char = text[i];
+
+		if (inString) {
+			if (char === '\\') i++; // Skip escaped characters (ex. \")
+			else if (char === '"') inString = false;
+		} else if (char === '"') {
+			inString = true;
+		} else if (char === '[' || char === '{') {
+			// Objects directly inside the cases array are test cases
+			if (char === '{' && depth === 1) offsets.push(i);
+			depth++;
+		} else if (char === ']' || char === '}') {
+			// Stop at the end of the cases array
+			if (--depth === 0) break;
+		}
+	}
+
+	return offsets;
+}
+
+/**
+ * Converts an offset in a text to a position
+ * @param text The text
+ * @param offset The offset
+ * @returns The (zero-based) line and character of the offset
+ */
+function positionAt(text: string, offset: number): Position {
+	const lines = text.slice(0, offset).split('\n');
+	return new Position(lines.length - 1, lines[lines.length - 1].length);
+}
+
+/**
+ * Converts the reason a test case failed into a message for the Test Explorer
+ * @param failure The reason the test case failed
+ * @param item The test case
+ * @returns The message (which is shown as a diff if the failure has an expected and actual value)
+ */
+function toTestMessage(failure: HMMMTestFailure, item: TestItem): TestMessage {
+	const message = failure.expected !== undefined && failure.actual !== undefined
+		? TestMessage.diff(failure.message, failure.expected, failure.actual)
+		: new TestMessage(failure.message);
+
+	if (item.uri && item.range) message.location = new Location(item.uri, item.range);
+
+	return message;
+}
+
+/**
+ * Shows the output of a test case in the Test Explorer and marks it as passed or failed
+ * @param run The run the test case is part of
+ * @param item The test case
+ * @param result The result of running the test case
+ * @param duration How long the test case took to run (in milliseconds)
+ */
+function reportTestResult(run: TestRun, item: TestItem, result: HMMMTestResult, duration?: number) {
+	// The terminal in the Test Explorer needs CRLF line endings
+	run.appendOutput(formatTestResult(result).join('\r\n') + '\r\n', undefined, item);
+
+	if (result.passed) run.passed(item, duration);
+	else run.failed(item, result.failures.map(failure => toTestMessage(failure, item)), duration);
+}
+
+//#endregion
+
+/**
+ * Discovers the test cases in the .test.json files in the workspace and runs (or debugs) them from the Test Explorer.
+ */
+export class HMMMTestExplorer implements Disposable {
+	/**
+	 * The controller which owns the test items shown in the Test Explorer
+	 */
+	private _controller: TestController;
+
+	/**
+	 * The watchers and event listeners which keep the test items up to date
+	 */
+	private _disposables: Disposable[] = [];
+
+	/**
+	 * Maps from each test case item to the index of the test case in its test file
+	 */
+	private _caseIndices = new WeakMap<TestItem, number>();
+
+	/**
+	 * Creates the test controller and starts watching for changes to test files
+	 */
+	public constructor() {
+		this._controller = tests.createTestController('hmmmTests', 'HMMM Tests');
+
+		// Test files are only searched for once the Test Explorer is opened (or refreshed)
+		this._controller.resolveHandler = async item => {
+			if (!item) await this.discoverTestFiles();
+		};
+		this._controller.refreshHandler = () => this.discoverTestFiles();
+
+		this._controller.createRunProfile('Run', TestRunProfileKind.Run, (request, token) => this.runTests(request, token), true);
+		this._controller.createRunProfile('Debug', TestRunProfileKind.Debug, (request, token) => this.debugTests(request, token), true);
+
+		const watcher = workspace.createFileSystemWatcher('**/*.test.json');
+		watcher.onDidCreate(uri => this.updateTestFile(uri));
+		watcher.onDidChange(uri => this.updateTestFile(uri));
+		watcher.onDidDelete(uri => this._controller.items.delete(uri.toString()));
+		this._disposables.push(watcher);
+
+		// Opening a test file shows its test cases (and the buttons to run them) even if the Test Explorer hasn't been opened
+		this._disposables.push(workspace.onDidOpenTextDocument(document => {
+			if (document.uri.scheme === 'file' && isTestFile(document.uri.fsPath)) this.updateTestFile(document.uri);
+		}));
+		workspace.textDocuments.filter(document => document.uri.scheme === 'file' && isTestFile(document.uri.fsPath)).forEach(document => this.updateTestFile(document.uri));
+	}
+
+	public dispose() {
+		this._disposables.forEach(disposable => disposable.dispose());
+		this._controller.dispose();
+	}
+
+	//#region Discovery
+
+	/**
+	 * Finds every test file in the workspace and adds its test cases to the Test Explorer
+	 */
+	private async discoverTestFiles() {
+		const testFiles = await workspace.findFiles('**/*.test.json', '**/node_modules/**');
+		testFiles.forEach(uri => this.updateTestFile(uri));
+	}
+
+	/**
+	 * Adds (or replaces) the test cases of a test file in the Test Explorer
+	 * @param uri The test file
+	 */
+	private updateTestFile(uri: Uri) {
+		let fileItem = this._controller.items.get(uri.toString());
+		if (!fileItem) {
+			fileItem = this._controller.createTestItem(uri.toString(), basename(uri.fsPath), uri);
+			this._controller.items.add(fileItem);
+		}
+
+		let text: string;
+		try {
+			text = readFileSync(uri.fsPath).toString();
+		} catch {
+			// The file was deleted before it could be read (The watcher will remove it)
+			return;
+		}
+
+		const { suite, error } = loadTestSuite(uri.fsPath);
+
+		// Invalid test files are shown with their error, so the user knows why no test cases are listed
+		fileItem.error = error;
+		if (!suite) {
+			fileItem.children.replace([]);
+			return;
+		}
+
+		const offsets = findTestCaseOffsets(text);
+		fileItem.children.replace(suite.cases.map((testCase, i) => {
+			const caseItem = this._controller.createTestItem(`${uri.toString()}#${i}`, getTestCaseName(testCase, i), uri);
+			if (offsets[i] !== undefined) {
+				const position = positionAt(text, offsets[i]);
+				caseItem.range = new Range(position, position);
+			}
+			this._caseIndices.set(caseItem, i);
+			return caseItem;
+		}));
+	}
+
+	/**
+	 * Gets the test cases included in a request
+	 * @param request The request from the Test Explorer
+	 * @returns The test case items (test files are replaced by their test cases)
+	 */
+	private getRequestedTestCases(request: TestRunRequest): TestItem[] {
+		const included: TestItem[] = [];
+		if (request.include) {
+			included.push(...request.include);
+		} else {
+			this._controller.items.forEach(item => included.push(item));
+		}
+
+		const testCases: TestItem[] = [];
+		for (const item of included) {
+			// Test files are replaced by all of their test cases
+			if (this._caseIndices.has(item)) testCases.push(item);
+			else item.children.forEach(child => testCases.push(child));
+		}
+
+		return testCases.filter(testCase => !request.exclude?.some(excluded => excluded === testCase || excluded === testCase.parent));
+	}
+
+	//#endregion
+
+	//#region Running Tests
+
+	/**
+	 * Runs the test cases included in a request (one at a time) and reports the results to the Test Explorer
+	 * @param request The request from the Test Explorer
+	 * @param token Cancelled when the user stops the run
+	 */
+	private async runTests(request: TestRunRequest, token: CancellationToken) {
+		const run = this._controller.createTestRun(request);
+
+		// Each test file is only loaded once per run, even if several of its test cases are run
+		const suites = new Map<string, HMMMTestSuite | undefined>();
+
+		for (const item of this.getRequestedTestCases(request)) {
+			if (token.isCancellationRequested) {
+				run.skipped(item);
+				continue;
+			}
+
+			const testFile = item.uri!.fsPath;
+			if (!suites.has(testFile)) suites.set(testFile, loadTestSuite(testFile).suite);
+
+			const suite = suites.get(testFile);
+			const testCase = suite?.cases[this._caseIndices.get(item)!];
+			const program = getProgramForTestFile(testFile);
+			if (!suite || !testCase || !program) {
+				run.errored(item, new TestMessage(program ? 'The test case could not be loaded' : `No program found for ${basename(testFile)}`));
+				continue;
+			}
+
+			run.started(item);
+			const start = Date.now();
+			const result = await runTestCase(program, testCase, this._caseIndices.get(item)!, suite);
+			reportTestResult(run, item, result, Date.now() - start);
+		}
+
+		run.end();
+	}
+
+	/**
+	 * Launches the debugger on each test case included in a request (one at a time), with the test case's input scripted,
+	 * and reports whether each test case passed to the Test Explorer once its session ends
+	 * @param request The request from the Test Explorer
+	 * @param token Cancelled when the user stops the run
+	 */
+	private async debugTests(request: TestRunRequest, token: CancellationToken) {
+		const run = this._controller.createTestRun(request);
+
+		for (const item of this.getRequestedTestCases(request)) {
+			if (token.isCancellationRequested) {
+				run.skipped(item);
+				continue;
+			}
+
+			const testFile = item.uri!.fsPath;
+			const { suite } = loadTestSuite(testFile);
+			const testCase = suite?.cases[this._caseIndices.get(item)!];
+			const program = getProgramForTestFile(testFile);
+			if (!suite || !testCase || !program) {
+				run.errored(item, new TestMessage(program ? 'The test case could not be loaded' : `No program found for ${basename(testFile)}`));
+				continue;
+			}
+
+			const configuration: DebugConfiguration = {
+				type: 'hmmm',
+				request: 'launch',
+				name: `Debug ${item.label}`,
+				program,
+				isBinary: extname(program).toLowerCase() === '.hb',
+				input: testCase.input ?? [],
+				// Use the same settings as runTestCase, so the program behaves the same way as when the test case is run
+				divideByZeroIsCritical: true,
+				detectInfiniteLoops: true,
+				maxSteps: testCase.maxSteps ?? suite.maxSteps ?? DEFAULT_MAX_STEPS
+			};
+
+			run.started(item);
+
+			// Wait for the session to end before debugging the next test case, so only one program is debugged at a time
+			// (The listener must be added before the session starts, since a short program could end before startDebugging resolves)
+			await new Promise<void>(resolve => {
+				const listeners = [
+					debug.onDidTerminateDebugSession(session => {
+						if (session.configuration.name !== configuration.name) return;
+						listeners.forEach(listener => listener.dispose());
+						resolve();
+					}),
+					token.onCancellationRequested(() => {
+						listeners.forEach(listener => listener.dispose());
+						resolve();
+					})
+				];
+
+				// If the session couldn't be started, there is nothing to wait for
+				const stopWaiting = () => {
+					listeners.forEach(listener => listener.dispose());
+					resolve();
+				};
+				debug.startDebugging(workspace.getWorkspaceFolder(item.uri!), configuration).then(started => {
+					if (!started) stopWaiting();
+				}, stopWaiting);
+			});
+
+			if (token.isCancellationRequested) {
+				run.skipped(item);
+				continue;
+			}
+
+			// The session can't report what the program did, but the program is deterministic, so running the test case with the same
+			// input and settings gives the same result (unless the user changed registers or memory while debugging)
+			reportTestResult(run, item, await runTestCase(program, testCase, this._caseIndices.get(item)!, suite));
+		}
+
+		run.end();
+	}
+
+	//#endregion
+}
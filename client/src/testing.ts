@@ -0,0 +1,390 @@
+import { existsSync, readFileSync } from 'fs';
+import { extname } from 'path';
+import { s16IntToNumber } from './helperfunctions';
+import { HMMMRuntime, defaultRuntimeSettings } from './runtime';
+
+//#region Types
+
+/**
+ * A single test case for a HMMM program
+ */
+export interface HMMMTestCase {
+	/**
+	 * The name of the test case (defaults to `Case <n>`)
+	 */
+	name?: string;
+	/**
+	 * The values to use as the input to read instructions (in order)
+	 */
+	input?: number[];
+	/**
+	 * The values the program is expected to write (in order). If undefined, the output is not checked
+	 */
+	output?: number[];
+	/**
+	 * Maps from registers (ex. r1) to the values they are expected to hold when the program halts
+	 */
+	registers?: Record<string, number>;
+	/**
+	 * Maps from memory addresses to the values they are expected to hold when the program halts
+	 */
+	memory?: Record<string, number>;
+	/**
+	 * The maximum number of instructions the program can execute (overrides the limit set for the whole suite)
+	 */
+	maxSteps?: number;
+}
+
+/**
+ * The contents of a test file (ex. `program.test.json` for `program.hmmm`)
+ */
+export interface HMMMTestSuite {
+	/**
+	 * The maximum number of instructions the program can execute in each test case (defaults to {@link DEFAULT_MAX_STEPS})
+	 */
+	maxSteps?: number;
+	/**
+	 * The test cases
+	 */
+	cases: HMMMTestCase[];
+}
+
+/**
+ * The result of loading a test file
+ */
+export interface HMMMTestSuiteLoadResult {
+	/**
+	 * The test suite (if the file is valid)
+	 */
+	suite?: HMMMTestSuite;
+	/**
+	 * A message describing why the file is invalid (if it is invalid)
+	 */
+	error?: string;
+}
+
+/**
+ * A reason that a test case failed
+ */
+export interface HMMMTestFailure {
+	/**
+	 * A description of the failure
+	 */
+	message: string;
+	/**
+	 * The expected value (if the failure is a mismatch that can be shown as a diff)
+	 */
+	expected?: string;
+	/**
+	 * The actual value (if the failure is a mismatch that can be shown as a diff)
+	 */
+	actual?: string;
+}
+
+/**
+ * The result of running a single test case
+ */
+export interface HMMMTestResult {
+	/**
+	 * The name of the test case
+	 */
+	name: string;
+	/**
+	 * Whether the test case passed
+	 */
+	passed: boolean;
+	/**
+	 * The reasons that the test case failed (empty if it passed)
+	 */
+	failures: HMMMTestFailure[];
+	/**
+	 * The values written by the program
+	 */
+	output: number[];
+	/**
+	 * The number of instructions executed by the program
+	 */
+	steps: number;
+}
+
+//#endregion
+
+//#region Test Files
+
+/**
+ * The maximum number of instructions a program can execute in a test case if no limit is given, so programs which never halt still fail
+ */
+export const DEFAULT_MAX_STEPS = 1000000;
+
+/**
+ * The suffix which identifies test files
+ */
+const TEST_FILE_SUFFIX = '.test.json';
+
+/**
+ * Determines whether a file is a HMMM test file
+ * @param file The path to the file
+ * @returns true if the file ends in .test.json, false otherwise
+ */
+export function isTestFile(file: string): boolean {
+	return file.toLowerCase().endsWith(TEST_FILE_SUFFIX);
+}
+
+/**
+ * Gets the path to the test file for a program (ex. `program.test.json` for `program.hmmm`)
+ * @param program The path to the program
+ * @returns The path to the test file (which may not exist)
+ */
+export function getTestFileForProgram(program: string): string {
+	return program.slice(0, program.length - extname(program).length) + TEST_FILE_SUFFIX;
+}
+
+/**
+ * Finds the program tested by a test file. HMMM assembly (`program.hmmm`) is preferred over HMMM binary (`program.hb`)
+ * @param testFile The path to the test file
+ * @returns The path to the program or undefined if neither exists
+ */
+export function getProgramForTestFile(testFile: string): string | undefined {
+	const base = testFile.slice(0, testFile.length - TEST_FILE_SUFFIX.length);
+	return [`${base}.hmmm`, `${base}.hb`].find(program => existsSync(program));
+}
+
+/**
+ * Determines whether a value is a record whose values are all numbers
+ * @param value The value to check
+ * @returns true if the value is an object mapping to numbers, false otherwise
+ */
+function isNumberRecord(value: unknown): value is Record<string, number> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value) && Object.values(value).every(entry => typeof entry === 'number');
+}
+
+/**
+ * Determines whether a value is an array of numbers
+ * @param value The value to check
+ * @returns true if the value is an array of numbers, false otherwise
+ */
+function isNumberArray(value: unknown): value is number[] {
+	return Array.isArray(value) && value.every(entry => typeof entry === 'number');
+}
+
+/**
+ * Finds the problem with a test case (if any)
+ * @param testCase The test case to validate
+ * @returns A description of the problem or undefined if the test case is valid
+ */
+function validateTestCase(testCase: unknown): string | undefined {
+	if (typeof testCase !== 'object' || testCase === null || Array.isArray(testCase)) return 'must be an object';
+
+	const { name, input, output, registers, memory, maxSteps } = testCase as Record<string, unknown>;
+
+	if (name !== undefined && typeof name !== 'string') return 'name must be a string';
+	if (input !== undefined && !isNumberArray(input)) return 'input must be an array of numbers';
+	if (output !== undefined && !isNumberArray(output)) return 'output must be an array of numbers';
+	if (registers !== undefined && !isNumberRecord(registers)) return 'registers must map registers to numbers';
+	if (memory !== undefined && !isNumberRecord(memory)) return 'memory must map addresses to numbers';
+	if (maxSteps !== undefined && !(Number.isInteger(maxSteps) && (maxSteps as number) > 0)) return 'maxSteps must be a positive integer';
+
+	// Registers and addresses must refer to real locations, otherwise the assertion could never be checked
+	const invalidRegister = Object.keys(registers ?? {}).find(register => !/^r([1-9]|1[0-5])$/i.test(register));
+	if (invalidRegister) return `${invalidRegister} is not a register (r1 to r15)`;
+	const invalidAddress = Object.keys(memory ?? {}).find(address => !/^\d+$/.test(address) || Number(address) > 255);
+	if (invalidAddress) return `${invalidAddress} is not a memory address (0 to 255)`;
+
+	return undefined;
+}
+
+/**
+ * Reads and validates a test file
+ * @param testFile The path to the test file
+ * @returns The test suite or an error describing why it could not be loaded
+ */
+export function loadTestSuite(testFile: string): HMMMTestSuiteLoadResult {
+	if (!existsSync(testFile)) return { error: `Test file not found: ${testFile}` };
+
+	let suite: unknown;
+	try {
+		suite = JSON.parse(readFileSync(testFile).toString());
+	} catch (e) {
+		return { error: `Invalid JSON: ${e instanceof Error ? e.message : e}` };
+	}
+
+	if (typeof suite !== 'object' || suite === null || !Array.isArray((suite as HMMMTestSuite).cases)) {
+		return { error: 'A test file must be an object with a cases array' };
+	}
+
+	const { maxSteps, cases } = suite as HMMMTestSuite;
+	if (maxSteps !== undefined && !(Number.isInteger(maxSteps) && maxSteps > 0)) return { error: 'maxSteps must be a positive integer' };
+
+	for (let i = 0; i < cases.length; i++) {
+		const error = validateTestCase(cases[i]);
+		if (error) return { error: `Case ${i + 1}: ${error}` };
+	}
+
+	return { suite: suite as HMMMTestSuite };
+}
+
+/**
+ * Gets the name of a test case
+ * @param testCase The test case
+ * @param index The index of the test case in its suite
+ * @returns The name of the test case or `Case <n>` if it has no name
+ */
+export function getTestCaseName(testCase: HMMMTestCase, index: number): string {
+	return testCase.name ?? `Case ${index + 1}`;
+}
+
+//#endregion
+
+//#region Running Tests
+
+/**
+ * Compares the output of a program to the expected output
+ * @param expected The expected output
+ * @param actual The output written by the program
+ * @returns A failure describing the first difference or undefined if the outputs match
+ */
+function compareOutput(expected: number[], actual: number[]): HMMMTestFailure | undefined {
+	const firstDifference = expected.findIndex((value, i) => value !== actual[i]);
+	if (firstDifference === -1 && expected.length === actual.length) return undefined;
+
+	const message = firstDifference === -1
+		? `Expected ${expected.length} values to be written, but the program wrote ${actual.length}`
+		: firstDifference >= actual.length
+			? `Expected ${expected.length} values to be written, but the program only wrote ${actual.length}`
+			: `Write ${firstDifference + 1} should be ${expected[firstDifference]}, but the program wrote ${actual[firstDifference]}`;
+
+	// Write one value per line, so that diffs line up with the writes
+	return { message, expected: expected.join('\n'), actual: actual.join('\n') };
+}
+
+/**
+ * Compares a value in the machine to the value it is expected to hold
+ * @param location The name of the register or memory address (used in the failure message)
+ * @param expected The expected value (Either the signed or unsigned form of the value is accepted)
+ * @param actual The value held in the machine (as stored, unsigned)
+ * @returns A failure if the values differ, otherwise undefined
+ */
+function compareValue(location: string, expected: number, actual: number): HMMMTestFailure | undefined {
+	if ((expected & 0xFFFF) === actual) return undefined;
+
+	return { message: `${location} should be ${expected}, but it is ${s16IntToNumber(actual)}`, expected: expected.toString(), actual: s16IntToNumber(actual).toString() };
+}
+
+/**
+ * Runs a test case on a headless runtime. Breakpoints and the debugging bookkeeping are disabled, so the program runs as fast as possible
+ * @param program The path to the program
+ * @param testCase The test case to run
+ * @param index The index of the test case in its suite (used to name unnamed cases)
+ * @param suite The suite containing the test case (used for its default step limit)
+ * @returns A promise which resolves to the result once the program ends
+ */
+export function runTestCase(program: string, testCase: HMMMTestCase, index: number, suite?: HMMMTestSuite): Promise<HMMMTestResult> {
+	const name = getTestCaseName(testCase, index);
+	const input = (testCase.input ?? []).map(value => value.toString());
+	const failures: HMMMTestFailure[] = [];
+	const output: number[] = [];
+
+	// Whether the program tried to read more input than the test case provides
+	let ranOutOfInput = false;
+
+	const runtime = new HMMMRuntime(
+		async () => {
+			const value = input.shift();
+			if (value === undefined) ranOutOfInput = true;
+			return value; // Running out of input terminates the program
+		},
+		message => failures.push({ message })
+	);
+
+	const language = extname(program).toLowerCase() === '.hb' ? 'hb' : 'hmmm';
+
+	// Division by zero terminates the program (like it does in the command line tool), so it fails the test case
+	if (!runtime.configure(program, language, { ...defaultRuntimeSettings, divideByZeroIsCritical: true }, true)) {
+		const errors = runtime.compilationErrors.length ? `: ${runtime.compilationErrors.map(error => error.message).join(', ')}` : '';
+		return Promise.resolve({ name, passed: false, failures: [{ message: `The program contains errors${errors}` }], output, steps: 0 });
+	}
+
+	runtime.setMaxSteps(testCase.maxSteps ?? suite?.maxSteps ?? DEFAULT_MAX_STEPS);
+
+	return new Promise(resolve => {
+		runtime.on('output', (text: string, category: string) => {
+			if (category === 'stdout') output.push(Number(text));
+			else if (category === 'stderr') failures.push({ message: text }); // Critical exceptions (ex. an invalid instruction or the step limit)
+		});
+
+		runtime.on('end', () => {
+			if (ranOutOfInput) failures.push({ message: `The program tried to read more than the ${testCase.input?.length ?? 0} input values provided` });
+
+			// Only check the final state if the program halted normally, since an error is the more useful failure
+			if (!failures.length) {
+				if (testCase.output) {
+					const failure = compareOutput(testCase.output, output);
+					if (failure) failures.push(failure);
+				}
+
+				for (const [register, value] of Object.entries(testCase.registers ?? {})) {
+					const failure = compareValue(register.toLowerCase(), value, runtime.registers[Number(register.slice(1))]);
+					if (failure) failures.push(failure);
+				}
+
+				for (const [address, value] of Object.entries(testCase.memory ?? {})) {
+					const failure = compareValue(`Memory address ${address}`, value, runtime.memory[Number(address)]);
+					if (failure) failures.push(failure);
+				}
+			}
+
+			resolve({ name, passed: !failures.length, failures, output, steps: runtime.executedInstructionCount });
+		});
+
+		runtime.continue();
+	});
+}
+
+/**
+ * Runs every test case in a suite (one at a time)
+ * @param program The path to the program
+ * @param suite The test suite
+ * @returns A promise which resolves to the results of the test cases (in order)
+ */
+export async function runTestSuite(program: string, suite: HMMMTestSuite): Promise<HMMMTestResult[]> {
+	const results: HMMMTestResult[] = [];
+	for (let i = 0; i < suite.cases.length; i++) {
+		results.push(await runTestCase(program, suite.cases[i], i, suite));
+	}
+	return results;
+}
+
+//#endregion
+
+//#region Formatting
+
+/**
+ * Formats the result of a test case for display in a terminal
+ * @param result The result of the test case
+ * @returns The lines describing the result (the failures and their diffs are indented below the name)
+ */
+export function formatTestResult(result: HMMMTestResult): string[] {
+	const lines = [`${result.passed ? 'PASS' : 'FAIL'} ${result.name} (${result.steps} step${result.steps === 1 ? '' : 's'})`];
+
+	for (const failure of result.failures) {
+		lines.push(`    ${failure.message}`);
+
+		// Show multi-line values (ex. the output) as a diff, so the first difference is easy to spot
+		if (failure.expected !== undefined && failure.actual !== undefined && (failure.expected.includes('\n') || failure.actual.includes('\n'))) {
+			const expected = failure.expected ? failure.expected.split('\n') : [];
+			const actual = failure.actual ? failure.actual.split('\n') : [];
+			for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+				if (expected[i] === actual[i]) {
+					lines.push(`        ${expected[i]}`);
+					continue;
+				}
+				if (i < expected.length) lines.push(`      - ${expected[i]}`);
+				if (i < actual.length) lines.push(`      + ${actual[i]}`);
+			}
+		}
+	}
+
+	return lines;
+}
+
+//#endregion
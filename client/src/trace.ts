@@ -0,0 +1,96 @@
+import { extname } from 'path';
+
+//#region Types
+
+/**
+ * A single step in the execution trace of a program
+ */
+export interface HMMMTraceEntry {
+	/**
+	 * The number of the step (starting at 1 for the first instruction executed)
+	 */
+	step: number;
+	/**
+	 * The address of the instruction which was executed
+	 */
+	address: number;
+	/**
+	 * The disassembled instruction which was executed
+	 */
+	instruction: string;
+	/**
+	 * Maps from the name of each register written by the instruction (ex. r1) to its new (signed) value
+	 */
+	registers: Record<string, number>;
+	/**
+	 * Maps from each memory address written by the instruction to its new (signed) value
+	 */
+	memory: Record<string, number>;
+	/**
+	 * The output printed by the instruction (if it was a write instruction)
+	 */
+	output?: string;
+}
+
+/**
+ * The formats which an execution trace can be exported in
+ * - jsonl: JSON Lines (one JSON object per step)
+ * - csv: Comma separated values with a header row
+ */
+export type HMMMTraceFormat = 'jsonl' | 'csv';
+
+//#endregion
+
+//#region Formatting
+
+/**
+ * Quotes a CSV field if it contains characters which would otherwise break the row
+ * @param field The field to escape
+ * @returns The escaped field
+ */
+function escapeCSVField(field: string): string {
+	return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Formats the changes made by a step as a single string (ex. `r1=5 r2=-1`) for use in a CSV file
+ * @param changes Maps from each location to its new value
+ * @returns The formatted changes
+ */
+function formatChanges(changes: Record<string, number>): string {
+	return Object.entries(changes).map(([location, value]) => `${location}=${value}`).join(' ');
+}
+
+/**
+ * Formats an execution trace so that it can be written to a file. Both formats are designed to be compared line-by-line (ex. with diff)
+ * @param trace The steps in the trace
+ * @param format The format to use
+ * @returns The formatted trace (ending with a newline)
+ */
+export function formatTrace(trace: HMMMTraceEntry[], format: HMMMTraceFormat): string {
+	if (format === 'jsonl') {
+		// Always include the output property, so every line has the same shape
+		return trace.map(entry => JSON.stringify({ ...entry, output: entry.output ?? null }) + '\n').join('');
+	}
+
+	const header = 'step,address,instruction,registers,memory,output\n';
+	return header + trace.map(entry => [
+		entry.step.toString(),
+		entry.address.toString(),
+		entry.instruction,
+		formatChanges(entry.registers),
+		formatChanges(entry.memory),
+		entry.output ?? ''
+	].map(escapeCSVField).join(',') + '\n').join('');
+}
+
+/**
+ * Determines the format to export a trace in from the extension of the file it will be written to
+ * @param path The path to the file
+ * @returns 'csv' if the file ends in .csv, 'jsonl' otherwise
+ */
+export function getTraceFormat(path: string): HMMMTraceFormat {
+	return extname(path).toLowerCase() === '.csv' ? 'csv' : 'jsonl';
+}
+
+//#endregion
@@ -261,6 +261,75 @@ export function preprocessLine(line: string) {
 	return line.split('#')[0].trimEnd();
 }
 
+/**
+ * A regular expression that matches the name of a label (a letter or underscore followed by any number of letters, digits, or underscores)
+ */
+export const labelNameRegex = /^[A-Za-z_]\w*$/;
+
+/**
+ * A regular expression that matches a (preprocessed) line which defines a label (ex. "loop:"). It contains the following capture groups:
+ * 1. The name of the label
+ */
+export const labelDefinitionRegex = /^\s*([A-Za-z_]\w*):\s*$/d;
+
+/**
+ * Gets the name of the label defined on a line of HMMM code
+ * @param line The line to check (Comments are removed automatically)
+ * @returns The name of the label defined on the line or undefined if the line does not define a label
+ */
+export function getLabelDefinition(line: string): string | undefined {
+	return labelDefinitionRegex.exec(preprocessLine(line))?.[1];
+}
+
+/**
+ * A directive which places raw data into memory instead of an instruction
+ * - .word: Places a single value into memory (ex. "5 .word 42")
+ * - .fill: Places a value into a number of consecutive memory addresses (ex. "6 .fill 10 0")
+ */
+export type HMMMDataDirective = '.word' | '.fill';
+
+/**
+ * Determines if the "instruction" on a line is actually a data directive (.word or .fill)
+ */
+export function isDataDirective(instr?: string): instr is HMMMDataDirective {
+	return instr === '.word' || instr === '.fill';
+}
+
+/**
+ * The smallest value that can be stored by a data directive (the smallest signed 16-bit number)
+ */
+export const minDataValue = -32768;
+/**
+ * The largest value that can be stored by a data directive (the largest unsigned 16-bit number)
+ */
+export const maxDataValue = 65535;
+
+/**
+ * Gets the number of memory addresses occupied by a line of HMMM code
+ * @param line The line to check (Comments are removed automatically)
+ * @returns 0 if the line is empty or defines a label, the number of values filled if the line is a valid .fill directive, and 1 otherwise
+ */
+export function getLineSize(line: string): number {
+	line = preprocessLine(line);
+
+	if (!line.trim() || getLabelDefinition(line) !== undefined) return 0; // Empty lines and labels don't take up any space
+
+	const m = instructionRegex.exec(line);
+
+	if (m) {
+		// If the line number is missing, the directive will be in the line number group, so each part of the line is in the previous group
+		const offset = isDataDirective(m[InstructionPart.LINE_NUM]) ? -1 : 0;
+
+		if (m[InstructionPart.INSTRUCTION + offset] === '.fill') {
+			const count = strictParseInt(m[InstructionPart.OPERAND1 + offset]);
+			if (count >= 1 && count <= 256) return count;
+		}
+	}
+
+	// Everything else is either an instruction or a single word of data (or an invalid line, which we assume was meant to be an instruction)
+	return 1;
+}
+
 /**
  * Determines if a HMMM instruction is a jump or call instruction (jumpr, jumpn, calln, etc.)
  */
@@ -315,8 +384,9 @@ export function formatBinaryNumber(line: string, pad: boolean): string {
  * - signed_number: The operand is a number that can only be represented as a signed number
  * - unsigned_number: The operand is a number that can only be represented as an unsigned number
  * - invalid_number: The operand is a number, but it is not a valid number (out of range)
+ * - label: The operand is the name of a label (which may or may not be defined)
  */
-export type HMMMDetectedOperandType = 'r0' | 'register' | 'invalid_register' | 'number' | 'signed_number' | 'unsigned_number' | 'invalid_number';
+export type HMMMDetectedOperandType = 'r0' | 'register' | 'invalid_register' | 'number' | 'signed_number' | 'unsigned_number' | 'invalid_number' | 'label';
 
 /**
  * Determines the type of an operand
@@ -338,7 +408,11 @@ export function validateOperand(operand: string | undefined): HMMMDetectedOperan
 	// Test if the argument is a number
 	const num = strictParseInt(operand);
 
-	if (isNaN(num)) return undefined; // Not a number
+	if (isNaN(num)) {
+		// If it's not a number, it may be a reference to a label
+		if (labelNameRegex.test(operand)) return 'label';
+		return undefined; // Not a number or a label
+	}
 
 	if (num < -128 || num > 255) return 'invalid_number'; // Out of range of what can be represented in HMMM binary
 	if (num < 0) return 'signed_number'; // Can be represented as a signed number
@@ -443,14 +517,471 @@ export function parseBinaryInstruction(instruction: string | number): ParsedHMMM
 	return { instruction: instr, operands: operands };
 }
 
+//#region Validation
+
+/**
+ * The types of errors which can be detected in HMMM assembly code. These are shared by the assembler and the language server,
+ * so that errors reported by one can be matched up with errors reported by the other (and so that the language server can suggest fixes)
+ */
+export type HMMMErrorType =
+	'invalid_line' |
+	'missing_line_num' |
+	'incorrect_line_num' |
+	'line_num_out_of_range' |
+	'invalid_operand' |
+	'invalid_register' |
+	'invalid_number' |
+	'unexpected_token' |
+	'missing_instruction' |
+	'invalid_instruction' |
+	'invalid_operand_type' |
+	'missing_operand' |
+	'too_many_operands' |
+	'jump_outside_cs' |
+	'invalid_label' |
+	'duplicate_label' |
+	'undefined_label';
+
+/**
+ * An error (or warning) detected in HMMM assembly code
+ */
+export interface HMMMError {
+	/**
+	 * The type of the error
+	 */
+	code: HMMMErrorType;
+	/**
+	 * A human-readable description of the error
+	 */
+	message: string;
+	/**
+	 * Whether the error prevents the code from being compiled ('error') or just indicates a likely mistake ('warning')
+	 */
+	severity: 'error' | 'warning';
+	/**
+	 * The (0-indexed) source line that the error occurred on
+	 */
+	line: number;
+	/**
+	 * The (0-indexed) column of the first character of the error
+	 */
+	startColumn: number;
+	/**
+	 * The (0-indexed) column after the last character of the error
+	 */
+	endColumn: number;
+}
+
+/**
+ * A label defined in HMMM code
+ */
+export interface HMMMLabel {
+	/**
+	 * The name of the label
+	 */
+	name: string;
+	/**
+	 * The address of the instruction the label refers to (the instruction immediately following the label)
+	 */
+	address: number;
+	/**
+	 * The (0-indexed) source line the label is defined on
+	 */
+	line: number;
+}
+
+/**
+ * Finds all labels defined in HMMM code. If a label is defined multiple times, only the first definition is used
+ * @param code The code to search (one entry per line)
+ * @returns A map of label names to their definitions
+ */
+export function findLabels(code: string[]): Map<string, HMMMLabel> {
+	const labels = new Map<string, HMMMLabel>();
+
+	// Keep track of the number of addresses used by the code, so we know the address of the instruction following each label
+	let numCodeLines = 0;
+
+	for (let i = 0; i < code.length; i++) {
+		const line = preprocessLine(code[i]);
+
+		if (!line.trim()) continue; // Skip empty lines
+
+		const label = getLabelDefinition(line);
+
+		if (label === undefined) {
+			// The line is an instruction (or data)
+			numCodeLines += getLineSize(line);
+		} else if (!labels.has(label)) {
+			labels.set(label, { name: label, address: numCodeLines, line: i });
+		}
+	}
+
+	return labels;
+}
+
+/**
+ * Resolves the numerical value of an operand, substituting the address of a label if the operand refers to one
+ * @param operand The operand to resolve
+ * @param labels The labels defined in the code (see {@link findLabels})
+ * @returns The value of the operand or NaN if the operand is not a number or a defined label
+ */
+export function resolveOperand(operand: string, labels: Map<string, HMMMLabel>): number {
+	return labels.get(operand)?.address ?? strictParseInt(operand);
+}
+
+/**
+ * Validates HMMM code and reports any errors that prevent it from being compiled along with any warnings about likely mistakes
+ * @param code The code to validate (one entry per line)
+ * @returns A list of all errors and warnings found in the code (in the order they were found)
+ */
+export function validateCode(code: string[]): HMMMError[] {
+	/*
+		Each line in the code should have the format: <line number> <instruction> <operand 1> <operand 2> <operand 3> # <comment>
+		The line number should be the number of the instruction in the file, starting at 0
+		The instruction should be one of the HMMM instructions
+		The operands should be either registers (r0-r15) or numbers (-128 to 127 or 0 to 255), matching the type expected by the instruction
+		Where an unsigned number is expected, the name of a label may be used instead
+		The comment is optional and can be anything
+		Alternatively, a line may define a label with the format: <label name>: # <comment>
+		Or place data into memory with the format: <line number> .word <value> # <comment> or <line number> .fill <count> <value> # <comment>
+		The line number of a data directive is the address of the first value it places into memory
+		Flag any lines that don't match these formats
+	*/
+
+	const errors: HMMMError[] = [];
+
+	// Find all labels up front, so that instructions can refer to labels defined after them
+	const labels = findLabels(code);
+
+	// Keep track of the labels we've seen, so we can detect duplicates
+	const definedLabels = new Set<string>();
+
+	// Keep track of the number of lines that contain code so we can check if the line numbers are correct
+	let numCodeLines = 0;
+
+	// Keep track of all jump destinations, so we can check if they're in the code segment
+	// Array of [destination address, line of the instruction, column range of the argument that contains the destination address]
+	const jumpDestinations: Array<[number, number, [number, number]]> = [];
+
+	// Keep track of the addresses which contain data, so we can check if any jumps go to them
+	const dataAddresses = new Set<number>();
+
+	for (let lineIdx = 0; lineIdx < code.length; lineIdx++) {
+		// Get the line and remove any comments
+		const line = preprocessLine(code[lineIdx]);
+
+		if (!line.trim()) continue; // Skip empty lines
+
+		/**
+		 * Reports an error on the current line
+		 * @param type The type of the error
+		 * @param message A description of the error
+		 * @param range The columns spanned by the error
+		 */
+		function reportError(type: HMMMErrorType, message: string, range: [number, number]) {
+			errors.push({ code: type, message, severity: 'error', line: lineIdx, startColumn: range[0], endColumn: range[1] });
+		}
+
+		// Check if the line defines a label
+		const labelMatch = labelDefinitionRegex.exec(line);
+		if (labelMatch) {
+			const label = labelMatch[1];
+			const labelRange = labelMatch.indices?.[1] ?? [0, line.length];
+
+			if (validateOperand(label) !== 'label') {
+				// The label could be confused with a register, so it can't be used as an operand
+				reportError('invalid_label', `Invalid label name! ${label} is the name of a register`, labelRange);
+			} else if (definedLabels.has(label)) {
+				reportError('duplicate_label', `Label ${label} is already defined`, labelRange);
+			}
+
+			definedLabels.add(label);
+
+			// Label definitions don't contain any instructions, so there's nothing left to check
+			continue;
+		}
+
+		// Try to match the line to the instruction regex
+		let m: RegExpExecArray | null;
+		if (!(m = instructionRegex.exec(line))) {
+			// If the regex fails to match, report an error (The regex is pretty general, so this shouldn't happen)
+			reportError('invalid_line', 'Invalid line!', [0, line.length]);
+			continue;
+		}
+
+		// Get the indices of the matched groups, if the regex fails to get the indices, assume every group spans the whole line
+		let indices: Array<[number, number]> = Array.from({ length: 7 }, (_, i) => m!.indices?.[i] ?? [0, line.length]);
+
+		const lineNum = strictParseInt(m[InstructionPart.LINE_NUM]); // Get the line number
+
+		if (isNaN(lineNum)) { // The line number is not a number
+			reportError('missing_line_num', 'Missing line number', [indices[InstructionPart.LINE_NUM][0], indices[InstructionPart.LINE_NUM][0] + 1]);
+
+			// Assume the user just forgot a line number and the rest of the line is correct. Try to match the line with a line number of 0
+			const prefix = '0 ';
+			m = instructionRegex.exec(`${prefix}${line}`) ?? m;
+			// Shift the indices back so that they still refer to the original line
+			indices = Array.from({ length: 7 }, (_, i) => {
+				const range = m!.indices?.[i];
+				return range ? [Math.max(0, range[0] - prefix.length), Math.max(0, range[1] - prefix.length)] : [0, line.length];
+			});
+		} else {
+			if (lineNum !== numCodeLines) { // The line number is not correct
+				reportError('incorrect_line_num', `Incorrect line number! Should be ${numCodeLines}`, indices[InstructionPart.LINE_NUM]);
+			}
+			if (lineNum + getLineSize(line) - 1 > 255) {
+				reportError('line_num_out_of_range', 'Line number is out of range! HMMM programs can only have 256 lines of code', indices[InstructionPart.LINE_NUM]);
+			}
+		}
+
+		const operand1 = m[InstructionPart.OPERAND1];
+		const operand2 = m[InstructionPart.OPERAND2];
+		const operand3 = m[InstructionPart.OPERAND3];
+
+		if (m[InstructionPart.OTHER]) { // There is an unexpected token at the end of the line
+			reportError('unexpected_token', 'Unexpected token!', indices[InstructionPart.OTHER]);
+		}
+
+		const directive = m[InstructionPart.INSTRUCTION];
+
+		if (isDataDirective(directive)) {
+			// The line contains data rather than an instruction, so it follows different rules
+
+			/**
+			 * Checks if an operand is a valid data value and reports errors if it isn't
+			 * @param operand The operand to check
+			 * @param operandIdx The index of the operand in the regex match
+			 */
+			function reportDataValueErrors(operand: string, operandIdx: number) {
+				const value = strictParseInt(operand);
+
+				if (isNaN(value)) {
+					if (validateOperand(operand) !== 'label') {
+						// The value is neither a number nor a label (ex. a register)
+						reportError('invalid_operand_type', `${directive} expects a number or a label here`, indices[operandIdx]);
+					} else if (!labels.has(operand)) {
+						// The value refers to a label which doesn't exist
+						reportError('undefined_label', `Undefined label ${operand}`, indices[operandIdx]);
+					}
+				} else if (value < minDataValue || value > maxDataValue) {
+					reportError('invalid_number', `Invalid value! Data can only contain numbers from ${minDataValue} to ${maxDataValue}`, indices[operandIdx]);
+				}
+			}
+
+			const numExpectedArgs = directive === '.word' ? 1 : 2;
+
+			if (!operand1 || (directive === '.fill' && !operand2)) {
+				// The directive is missing an operand
+				reportError('missing_operand', `${directive} expects ${numExpectedArgs} argument${numExpectedArgs === 1 ? '' : 's'}`, indices[InstructionPart.INSTRUCTION]);
+			} else if (directive === '.word') {
+				reportDataValueErrors(operand1, InstructionPart.OPERAND1);
+			} else {
+				const count = strictParseInt(operand1);
+				if (isNaN(count) || count < 1 || count > 256) {
+					reportError('invalid_number', 'Invalid count! .fill can only fill 1 to 256 addresses', indices[InstructionPart.OPERAND1]);
+				}
+				reportDataValueErrors(operand2, InstructionPart.OPERAND2);
+			}
+
+			// Report any extra operands
+			if (directive === '.word' && operand2) {
+				reportError('too_many_operands', `${directive} only expects ${numExpectedArgs} argument`, indices[InstructionPart.OPERAND2]);
+			} else if (operand3) {
+				reportError('too_many_operands', `${directive} only expects ${numExpectedArgs} argument${numExpectedArgs === 1 ? '' : 's'}`, indices[InstructionPart.OPERAND3]);
+			}
+
+			// Record the addresses occupied by the data and move past them
+			const size = getLineSize(line);
+			for (let i = 0; i < size; i++) dataAddresses.add(numCodeLines + i);
+			numCodeLines += size;
+
+			continue;
+		}
+
+		numCodeLines++; // Increment the number of code lines
+
+		/**
+		 * Checks if an operand is valid and reports errors if it isn't
+		 *
+		 * @param operandType The detected operand type
+		 * @param operandIdx The index of the operand in the regex match
+		 */
+		function reportOperandErrors(operandType: HMMMDetectedOperandType | undefined, operandIdx: number) {
+			if (operandType === undefined) { // The operand is invalid
+				reportError('invalid_operand', 'Invalid operand!', indices[operandIdx]);
+			} else if (operandType === 'invalid_register') { // The operand is a register that is not r0-r15
+				reportError('invalid_register', 'Invalid register! HMMM only supports registers r0-r15', indices[operandIdx]);
+			} else if (operandType === 'invalid_number') { // The operand is a number that is out of range
+				reportError('invalid_number', 'Invalid number! HMMM only supports numerical arguments from -128 to 127 (signed) or 0 to 255 (unsigned)', indices[operandIdx]);
+			}
+		}
+
+		let operand1Type: HMMMDetectedOperandType | undefined = undefined;
+		let operand2Type: HMMMDetectedOperandType | undefined = undefined;
+		let operand3Type: HMMMDetectedOperandType | undefined = undefined;
+
+		// Validate the operands if they exist
+		if (operand1) {
+			operand1Type = validateOperand(operand1);
+			reportOperandErrors(operand1Type, InstructionPart.OPERAND1);
+		}
+		if (operand2) {
+			operand2Type = validateOperand(operand2);
+			reportOperandErrors(operand2Type, InstructionPart.OPERAND2);
+		}
+		if (operand3) {
+			operand3Type = validateOperand(operand3);
+			reportOperandErrors(operand3Type, InstructionPart.OPERAND3);
+		}
+
+		const instruction = m[InstructionPart.INSTRUCTION];
+
+		if (!instruction) {
+			// There is a line number, but no instruction
+			reportError('missing_instruction', 'Expected instruction', [Math.max(0, indices[InstructionPart.LINE_NUM][1] - 1), indices[InstructionPart.LINE_NUM][1]]);
+			continue;
+		}
+
+		// Try to get the instruction from the name
+		const hmmmInstruction = getInstructionByName(instruction);
+
+		if (!hmmmInstruction) {
+			// The instruction is not valid
+			reportError('invalid_instruction', 'Unknown instruction', indices[InstructionPart.INSTRUCTION]);
+			continue;
+		}
+
+		// Calculate the number of expected arguments for the given instruction
+		const numExpectedArgs = [hmmmInstruction.operand1, hmmmInstruction.operand2, hmmmInstruction.operand3].filter(operand => operand !== undefined).length;
+
+		/**
+		 * Checks if an operand is valid for the given instruction and reports errors if it isn't
+		 *
+		 * @param operand The operand to check
+		 * @param operandType The detected operand type
+		 * @param operandIdx The index of the operand in the regex match
+		 * @param instruction The instruction to check against
+		 * @param expectedType The expected operand type
+		 *
+		 * @returns true if the operand is missing and the code should stop checking for errors, false otherwise
+		 */
+		function reportOperandTypeMismatchErrors(operand: string, operandType: HMMMDetectedOperandType | undefined, operandIdx: number, instruction: HMMMInstruction, expectedType: HMMMOperandType | undefined): boolean {
+			if (expectedType) { // The instruction expects an operand
+				if (operand) { // An operand was provided
+					switch (expectedType) {
+						case 'register':
+							if (operandType !== 'register' && operandType !== 'r0' && operandType !== 'invalid_register') {
+								// The instruction expects a register, but the operand is not a register
+								reportError('invalid_operand_type', `${instruction.name} expects a register here`, indices[operandIdx]);
+							}
+							break;
+						case 'signed_number':
+							if (operandType !== 'signed_number' && operandType !== 'number') {
+								// The instruction expects a signed number, but the operand is not a signed number
+								reportError('invalid_operand_type', `${instruction.name} expects a signed number (-128 to 127) here`, indices[operandIdx]);
+							}
+							break;
+						case 'unsigned_number':
+							if (operandType === 'label' && !labels.has(operand)) {
+								// The operand refers to a label which doesn't exist
+								reportError('undefined_label', `Undefined label ${operand}`, indices[operandIdx]);
+							} else if (operandType !== 'unsigned_number' && operandType !== 'number' && operandType !== 'label') {
+								// The instruction expects an unsigned number, but the operand is not an unsigned number
+								reportError('invalid_operand_type', `${instruction.name} expects an unsigned number (0 to 255) or a label here`, indices[operandIdx]);
+							} else if (isJumpInstruction(instruction.name)) {
+								// The instruction is a jump or call instruction, so add the destination to the
+								// list of jump destinations so we can check if it's in the code segment later
+								// Jump destinations are always unsigned numbers (or labels which refer to them)
+								jumpDestinations.push([resolveOperand(operand, labels), lineIdx, indices[operandIdx]]);
+							}
+							break;
+					}
+				} else {
+					// The instruction expects an operand, but none was provided
+					reportError('missing_operand', `${instruction.name} expects ${numExpectedArgs} argument${numExpectedArgs === 1 ? '' : 's'}`, indices[InstructionPart.INSTRUCTION]);
+					return true; // There are no more operands to check (because this one was missing), so stop checking for errors
+				}
+			} else if (operand) {
+				// The instruction does not expect an operand, but one was provided
+				reportError('too_many_operands', `${instruction.name} only expects ${numExpectedArgs} argument${numExpectedArgs === 1 ? '' : 's'}`, indices[operandIdx]);
+			}
+			return false;
+		}
+
+		// Check if the operands are valid for the given instruction
+		if (reportOperandTypeMismatchErrors(operand1, operand1Type, InstructionPart.OPERAND1, hmmmInstruction, hmmmInstruction.operand1)) continue;
+		if (reportOperandTypeMismatchErrors(operand2, operand2Type, InstructionPart.OPERAND2, hmmmInstruction, hmmmInstruction.operand2)) continue;
+		if (reportOperandTypeMismatchErrors(operand3, operand3Type, InstructionPart.OPERAND3, hmmmInstruction, hmmmInstruction.operand3)) continue;
+	}
+
+	for (const [destination, line, range] of jumpDestinations) {
+		if (destination >= numCodeLines || dataAddresses.has(destination)) {
+			errors.push({
+				code: 'jump_outside_cs',
+				message: dataAddresses.has(destination) ? 'Jump destination is data, not code' : 'Jump destination is outside code segment',
+				severity: 'warning',
+				line,
+				startColumn: range[0],
+				endColumn: range[1]
+			});
+		}
+	}
+
+	return errors;
+}
+
+/**
+ * Formats an error as a single line of text in the form "line:column severity: message (code)".
+ * Lines and columns are 1-indexed to match the way most editors display them
+ * @param error The error to format
+ * @returns The formatted error
+ */
+export function formatError(error: HMMMError): string {
+	return `${error.line + 1}:${error.startColumn + 1} ${error.severity}: ${error.message} (${error.code})`;
+}
+
+//#endregion
+
+/**
+ * Represents the result of compiling HMMM code
+ */
+export interface HMMMCompilationResult {
+	/**
+	 * The compiled binary code (one instruction or data value per entry) or undefined if the code contains errors
+	 */
+	binary?: string[];
+	/**
+	 * A map of memory addresses to source line numbers
+	 */
+	lineMap: Map<number, number>;
+	/**
+	 * The memory addresses which contain data (placed by .word or .fill) rather than instructions
+	 */
+	dataAddresses: Set<number>;
+	/**
+	 * All errors and warnings found in the code. If this contains any errors (as opposed to just warnings), binary is undefined
+	 */
+	errors: HMMMError[];
+}
+
 /**
  * Compiles HMMM code to binary
  * @param code The code to compile
- * @returns The compiled code and a map of instruction numbers to source line numbers or undefined if the code is invalid
+ * @returns The compiled code, a map of instruction numbers to source line numbers, and any errors/warnings found in the code
  */
-export function compile(code: string[]): [string[], Map<number, number>] | undefined {
+export function compile(code: string[]): HMMMCompilationResult {
 	const compiledCode: string[] = [];
 	const lineMap = new Map<number, number>();
+	const dataAddresses = new Set<number>();
+
+	// Validate the code first, so that every problem is reported (rather than just the first one)
+	const errors = validateCode(code);
+
+	// If there are any errors, the code can't be compiled
+	if (errors.some(error => error.severity === 'error')) return { lineMap, dataAddresses, errors };
+
+	// Find the addresses of all labels, so that they can be substituted for their operands
+	const labels = findLabels(code);
 
 	// Keep track of the number of lines of code we've encountered
 	let numCodeLines = 0;
@@ -459,22 +990,35 @@ export function compile(code: string[]): [string[], Map<number, number>] | undef
 		// Preprocess each line
 		const line = preprocessLine(code[i]).trim();
 
-		if (!line) continue; // Skip empty lines
+		if (!line || getLabelDefinition(line) !== undefined) continue; // Skip empty lines and label definitions
 
-		// Try to parse the instruction
-		let m: RegExpExecArray | null;
-		if (!(m = instructionRegex.exec(line)) || m[InstructionPart.OTHER]) return undefined; // Invalid instruction!
+		// Because the code has been validated, we can assume that each line contains a valid instruction (or data directive)
+		const m = instructionRegex.exec(line)!;
+
+		const directive = m[InstructionPart.INSTRUCTION];
 
-		// Validate the line number
-		if (strictParseInt(m[InstructionPart.LINE_NUM]) !== numCodeLines) return undefined; // Invalid line number!
+		if (isDataDirective(directive)) {
+			// Get the number of copies to place and the value to place
+			const [count, value] = directive === '.word' ? [1, m[InstructionPart.OPERAND1]] : [strictParseInt(m[InstructionPart.OPERAND1]), m[InstructionPart.OPERAND2]];
+
+			// Performing the bitwise AND automatically converts the number to 2's complement if it is negative
+			const binary = resolveOperand(value, labels) & 0xFFFF;
+
+			for (let j = 0; j < count; j++) {
+				// Every copy of the value maps back to the line which defined it
+				dataAddresses.add(numCodeLines);
+				lineMap.set(numCodeLines++, i);
+				compiledCode.push(formatBinaryNumber(binary.toString(2), true));
+			}
+
+			continue;
+		}
 
 		// Add the line number to the line map and increment the number of code lines
 		lineMap.set(numCodeLines++, i);
 
 		// Get the instruction definition
-		const instr = getInstructionByName(m[InstructionPart.INSTRUCTION]);
-
-		if (!instr) return undefined; // Invalid instruction!
+		const instr = getInstructionByName(m[InstructionPart.INSTRUCTION])!;
 
 		// By default the binary representation of the instruction is just the opcode
 		let binary = instr.opcode;
@@ -486,63 +1030,79 @@ export function compile(code: string[]): [string[], Map<number, number>] | undef
 		 * @param operandType The expected type of the operand
 		 * @param stringValue The string representation of the operand
 		 * @param operandShift The number of bits to the right of the operand in the binary representation of the instruction
-		 * @returns The binary representation of the operand or undefined if the operand is invalid
+		 * @returns The binary representation of the operand
 		 */
-		function compileOperand(operandType: HMMMOperandType | undefined, stringValue: string | undefined, operandShift: number): number | undefined {
-			// Attempt to detect the type of the operand
-			const operand = validateOperand(stringValue);
-
-			if (operand === undefined) return undefined; // Invalid operand!
-
-			switch(operandType) {
+		function compileOperand(operandType: HMMMOperandType | undefined, stringValue: string | undefined, operandShift: number): number {
+			switch (operandType) {
 				case 'register':
-					if (!(operand === 'r0' || operand === 'register')) return undefined; // Invalid operand!
 					return strictParseInt(stringValue!.slice(1)) << operandShift;
 				case 'signed_number':
-					if (!(operand === 'signed_number' || operand === 'number')) return undefined; // Invalid operand!
-					// Performing the bitwise AND automatically converts the number to 2's complement if it is negative
-					return strictParseInt(stringValue!) & 0b1111_1111;
 				case 'unsigned_number':
-					if (!(operand === 'unsigned_number' || operand === 'number')) return undefined; // Invalid operand!
-					return strictParseInt(stringValue!) & 0b1111_1111;
+					// Performing the bitwise AND automatically converts the number to 2's complement if it is negative
+					return resolveOperand(stringValue!, labels) & 0b1111_1111;
+				default:
+					return 0;
 			}
 		}
 
-		if(instr.operand1) {
-			const operand = compileOperand(instr.operand1, m[InstructionPart.OPERAND1], 8);
+		binary |= compileOperand(instr.operand1, m[InstructionPart.OPERAND1], 8);
+		binary |= compileOperand(instr.operand2, m[InstructionPart.OPERAND2], 4);
+		binary |= compileOperand(instr.operand3, m[InstructionPart.OPERAND3], 0);
 
-			if (operand === undefined) return undefined; // Invalid operand!
-
-			binary |= operand;
-		} else if (m[InstructionPart.OPERAND1]) return undefined; // An operand was provided, but the instruction does not accept an operand!
-
-		if(instr.operand2) {
-			const operand = compileOperand(instr.operand2, m[InstructionPart.OPERAND2], 4);
+		// Add the binary representation of the instruction to the output
+		compiledCode.push(formatBinaryNumber(binary.toString(2), true));
+	}
 
-			if (operand === undefined) return undefined; // Invalid operand!
+	return { binary: compiledCode, lineMap, dataAddresses, errors };
+}
 
-			binary |= operand;
-		} else if (m[InstructionPart.OPERAND2]) return undefined; // An operand was provided, but the instruction does not accept an operand!
+/**
+ * Disassembles HMMM binary code into a numbered HMMM assembly program.
+ * Comments (anything after a #) are preserved. Lines which contain a 16-bit binary number that is not a valid instruction
+ * are converted to .word directives, so that the disassembled program places the same values in memory. Lines which
+ * cannot be interpreted as binary at all are preserved as comments
+ * @param binary The binary code to disassemble (one entry per line)
+ * @returns The disassembled code (one entry per line)
+ */
+export function disassemble(binary: string[]): string[] {
+	const code: string[] = [];
+
+	// Keep track of the address of the next instruction
+	let address = 0;
+
+	for (const line of binary) {
+		// Split the line into the binary and the comment (if there is one)
+		const commentPos = line.indexOf('#');
+		const binaryPart = (commentPos === -1 ? line : line.slice(0, commentPos)).trim();
+		const comment = commentPos === -1 ? '' : line.slice(commentPos + 1).trim();
+
+		if (!binaryPart) {
+			// The line doesn't contain any code, so just keep the comment (or the empty line)
+			code.push(comment ? `# ${comment}` : '');
+			continue;
+		}
 
-		if(instr.operand3) {
-			if(instr.operand3 === 'signed_number' || instr.operand3 === 'unsigned_number') {
-				// All numbers are represented with 8 bits, so the third argument cannot be a number
-				console.error(`Invalid instruction! ${instr.name} has an operand 3 of type ${instr.operand3}`);
-				return undefined;
-			}
+		const digits = binaryPart.replaceAll(/\s/g, '');
 
-			const operand = compileOperand(instr.operand3, m[InstructionPart.OPERAND3], 0);
+		if (!/^[01]{16}$/.test(digits)) {
+			// The line isn't a binary number, so it can't be loaded into memory. Keep it (as a comment), so it isn't lost
+			code.push(`# Invalid binary: ${line.trim()}`);
+			continue;
+		}
 
-			if (operand === undefined) return undefined; // Invalid operand!
+		const instruction = decompileInstruction(digits);
 
-			binary |= operand;
-		} else if (m[InstructionPart.OPERAND3]) return undefined; // An operand was provided, but the instruction does not accept an operand!
+		if (instruction) {
+			code.push(`${address} ${instruction}${comment ? ` # ${comment}` : ''}`);
+		} else {
+			// The value can't be decoded, so treat it as data
+			code.push(`${address} .word ${strictParseInt(digits, 2)} # Not a valid instruction${comment ? `. ${comment}` : ''}`);
+		}
 
-		// Add the binary representation of the instruction to the output
-		compiledCode.push(formatBinaryNumber(binary.toString(2), true));
+		address++;
 	}
 
-	return [compiledCode, lineMap];
+	return code;
 }
 
 //#endregion
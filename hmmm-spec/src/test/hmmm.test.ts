@@ -0,0 +1,179 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { compile, decompileInstruction, disassemble, findLabels, formatError, getLineSize, resolveOperand, validateCode } from '../hmmm';
+
+describe('validateCode', () => {
+	const code = [
+		'0 setn r1 5',
+		'2 add r1 r2',
+		'2 foo r1',
+		'3 jumpn 200',
+		'halt'
+	];
+
+	it('reports every error in the code with its location', () => {
+		assert.deepEqual(validateCode(code).map(error => [error.code, error.severity, error.line, error.startColumn, error.endColumn]), [
+			['incorrect_line_num', 'error', 1, 0, 1],
+			['missing_operand', 'error', 1, 2, 5],
+			['invalid_instruction', 'error', 2, 2, 5],
+			['missing_line_num', 'error', 4, 0, 1],
+			['jump_outside_cs', 'warning', 3, 8, 11]
+		]);
+	});
+
+	it('reports nothing for valid code', () => {
+		assert.deepEqual(validateCode(['0 setn r1 5', '1 write r1', '2 halt']), []);
+	});
+});
+
+describe('compile', () => {
+	it('returns the binary and the source line of each instruction', () => {
+		const { binary, lineMap, errors } = compile(['0 setn r1 5', '', '# Comment', '1 write r1', '2 halt']);
+		assert.deepEqual(errors, []);
+		assert.deepEqual(binary, ['0001 0001 0000 0101', '0000 0001 0000 0010', '0000 0000 0000 0000']);
+		assert.deepEqual([...lineMap], [[0, 0], [1, 3], [2, 4]]);
+	});
+
+	it('still compiles code which only contains warnings', () => {
+		const { binary, errors } = compile(['0 setn r1 5', '1 jumpn 10', '2 halt']);
+		assert.equal(binary?.length, 3);
+		assert.deepEqual(errors.map(error => error.code), ['jump_outside_cs']);
+	});
+
+	it('does not compile code which contains errors', () => {
+		const { binary, errors } = compile(['0 setn r1 5', '2 halt']);
+		assert.equal(binary, undefined);
+		assert.deepEqual(errors.map(error => error.message), ['Incorrect line number! Should be 1']);
+	});
+});
+
+describe('formatError', () => {
+	it('uses one-based lines and columns', () => {
+		assert.equal(formatError(validateCode(['0 setn r1 5', '2 halt'])[0]), '2:1 error: Incorrect line number! Should be 1 (incorrect_line_num)');
+	});
+});
+
+describe('labels', () => {
+	const code = [
+		'start:',
+		'0 setn r1 5',
+		'loop: # Labels can have comments',
+		'1 addn r1 -1',
+		'2 jnezn r1 loop',
+		'3 jumpn end',
+		'',
+		'end:',
+		'4 halt',
+		'loop:'
+	];
+
+	it('refers to the address of the next instruction', () => {
+		const labels = findLabels(code);
+		assert.deepEqual([...labels.values()], [
+			{ name: 'start', address: 0, line: 0 },
+			{ name: 'loop', address: 1, line: 2 },
+			{ name: 'end', address: 4, line: 7 }
+		]);
+		assert.equal(resolveOperand('loop', labels), 1);
+		assert.equal(resolveOperand('12', labels), 12);
+		assert.ok(isNaN(resolveOperand('missing', labels)));
+	});
+
+	it('are replaced by their addresses when compiled', () => {
+		const { binary, lineMap } = compile(code.slice(0, 9));
+		assert.deepEqual(binary?.map(word => decompileInstruction(word)), ['setn r1 5', 'addn r1 -1', 'jnezn r1 1', 'jumpn 4', 'halt']);
+		assert.deepEqual([...lineMap], [[0, 1], [1, 3], [2, 4], [3, 5], [4, 8]]);
+	});
+
+	it('must be defined', () => {
+		const errors = validateCode(['0 jumpn nowhere', '1 halt']);
+		assert.deepEqual(errors.map(error => [error.code, error.message, error.line, error.startColumn, error.endColumn]), [['undefined_label', 'Undefined label nowhere', 0, 8, 15]]);
+		assert.equal(compile(['0 jumpn nowhere', '1 halt']).binary, undefined);
+	});
+
+	it('do not replace line numbers', () => {
+		const errors = validateCode(['loop:', 'addn r1 -1', 'jnezn r1 loop']);
+		assert.deepEqual(errors.map(error => [error.code, error.line]), [['missing_line_num', 1], ['missing_line_num', 2]]);
+	});
+});
+
+describe('data directives', () => {
+	const code = [
+		'0 jumpn end',
+		'1 .fill 3 7',
+		'values:',
+		'4 .word -1',
+		'end:',
+		'5 loadn r1 values',
+		'6 halt',
+		'7 .word end'
+	];
+
+	it('take up one address per value', () => {
+		assert.equal(getLineSize('1 .fill 3 7'), 3);
+		assert.equal(getLineSize('.fill 3 7'), 3);
+		assert.equal(getLineSize('4 .word -1'), 1);
+		// Invalid counts are assumed to be a single value (the validator reports them)
+		assert.equal(getLineSize('1 .fill 300 7'), 1);
+		assert.equal(getLineSize('values:'), 0);
+	});
+
+	it('move the labels and instructions after them', () => {
+		assert.equal(findLabels(code).get('values')?.address, 4);
+		assert.equal(findLabels(code).get('end')?.address, 5);
+	});
+
+	it('place their values in memory', () => {
+		const { binary, lineMap, dataAddresses, errors } = compile(code);
+		assert.deepEqual(errors, []);
+		assert.deepEqual(binary, [
+			'1011 0000 0000 0101',
+			'0000 0000 0000 0111',
+			'0000 0000 0000 0111',
+			'0000 0000 0000 0111',
+			'1111 1111 1111 1111',
+			'0010 0001 0000 0100',
+			'0000 0000 0000 0000',
+			'0000 0000 0000 0101'
+		]);
+		// Every copy of a filled value maps back to the .fill directive
+		assert.deepEqual([...lineMap], [[0, 0], [1, 1], [2, 1], [3, 1], [4, 3], [5, 5], [6, 6], [7, 7]]);
+		assert.deepEqual([...dataAddresses], [1, 2, 3, 4, 7]);
+	});
+
+	it('require the line numbers after them to skip the filled addresses', () => {
+		const errors = validateCode(['0 setn r1 5', '1 .fill 2 0', '2 halt']);
+		assert.deepEqual(errors.map(error => [error.code, error.message, error.line]), [['incorrect_line_num', 'Incorrect line number! Should be 3', 2]]);
+	});
+});
+
+describe('disassemble', () => {
+	it('numbers instructions and keeps comments', () => {
+		assert.deepEqual(disassemble([
+			'0001 0001 0000 0101 # Set r1',
+			'',
+			'# Loop',
+			'0110 0001 0001 0001',
+			'0000 0000 0000 0000'
+		]), [
+			'0 setn r1 5 # Set r1',
+			'',
+			'# Loop',
+			'1 add r1 r1 r1',
+			'2 halt'
+		]);
+	});
+
+	it('converts values which are not instructions to .word directives', () => {
+		assert.deepEqual(disassemble(['0000 0000 0000 0100 # Data']), ['0 .word 4 # Not a valid instruction. Data']);
+	});
+
+	it('keeps lines which are not binary as comments without giving them an address', () => {
+		assert.deepEqual(disassemble(['not binary', '0000 0000 0000 0000']), ['# Invalid binary: not binary', '0 halt']);
+	});
+
+	it('produces code which compiles to the same binary', () => {
+		const binary = ['0001 0001 0000 0101', '1000 0010 0001 0001', '0000 0000 0000 0100', '0000 0000 0000 0000'];
+		assert.deepEqual(compile(disassemble(binary)).binary, binary);
+	});
+});
@@ -7,7 +7,21 @@ import {
 	TextEdit,
 	uinteger
 } from 'vscode-languageserver/node';
-import { getInstructionRepresentation, getInstructionSignature, hmmmInstructions, preprocessLine } from '../../hmmm-spec/out/hmmm';
+import {
+	InstructionPart,
+	findLabels,
+	getInstructionByName,
+	getInstructionRepresentation,
+	getInstructionSignature,
+	getLabelDefinition,
+	getLineSize,
+	hmmmInstructions,
+	instructionRegex,
+	isDataDirective,
+	isJumpInstruction,
+	preprocessLine,
+	strictParseInt
+} from '../../hmmm-spec/out/hmmm';
 
 //#region VSCode
 
@@ -48,6 +62,15 @@ export function getRangeForLine(line: number): Range {
 	return Range.create(line, uinteger.MIN_VALUE, line, uinteger.MAX_VALUE);
 }
 
+/**
+ * Splits a text document into its lines (without line terminators)
+ * @param document The document to split
+ * @returns An array containing the text of each line in the document
+ */
+export function getDocumentLines(document: TextDocument): string[] {
+	return Array.from({ length: document.lineCount }, (_, i) => document.getText(getRangeForLine(i)));
+}
+
 /**
  * Creates a TextEdit which applies the requested trailing newline edits from the given DocumentFormattingParams
  * @param params The DocumentFormattingParams to get the edits from
@@ -108,18 +131,98 @@ export function populateInstructions(completionList: CompletionList) {
  * @returns The expected instruction number
  */
 export function getExpectedInstructionNumber(lineNumber: number, document: TextDocument): number {
-	let numCodeLines = 0; // Keep track of the number of lines that contain code so we can check the instruction numbers
+	let numCodeLines = 0; // Keep track of the number of addresses used by the code so we can check the instruction numbers
 
 	for (let i = 0; i < lineNumber; i++) { // Loop through all the lines before the given line
+		// Empty lines and label definitions don't take up any space, but .fill directives can take up several addresses
+		numCodeLines += getLineSize(preprocessDocumentLine(document, i));
+	}
+
+	return numCodeLines; // The instruction number is the number of addresses used before the line
+}
+
+/**
+ * Computes the edits required to renumber every instruction in the document so that the line numbers are sequential.
+ * Any jump or call whose destination is a line number which was moved is updated to point to the new line number.
+ * If a line number appears multiple times, jumps to that number are assumed to refer to its last occurrence
+ * (This is usually the original line if a new line was inserted above it with a copied line number)
+ *
+ * @param document The text document to renumber
+ * @returns The edits required to renumber the document
+ */
+export function getRenumberEdits(document: TextDocument): TextEdit[] {
+	/**
+	 * The parsed instructions in the document
+	 */
+	const instructions: { line: number, m: RegExpMatchArray, missingLineNum: boolean, newLineNum: number }[] = [];
+
+	/**
+	 * Maps each old address to the address of the same instruction (or value) after renumbering
+	 */
+	const lineNumMap = new Map<number, number>();
+
+	let numCodeLines = 0; // Keep track of the number of lines that contain code so we can compute the new instruction numbers
+
+	// Find all the instructions and compute their new line numbers
+	for (let i = 0; i < document.lineCount; i++) {
 		// Get the line and remove any comments
 		const line = preprocessDocumentLine(document, i);
 
-		if (!line.trim()) continue; // Skip empty lines
+		if (!line.trim() || getLabelDefinition(line) !== undefined) continue; // Skip empty lines and label definitions
+
+		const newLineNum = numCodeLines; // The line contains code, so it takes up an instruction (or several addresses of data)
+		const size = getLineSize(line);
+		numCodeLines += size;
 
-		numCodeLines++; // The line contains code, so increment the number of code lines
+		// Try to parse the line as an instruction
+		let m: RegExpMatchArray | null;
+		if (!(m = instructionRegex.exec(line))?.indices) continue; // We can't interpret the line, so leave it as is
+
+		// If the first token is an instruction (or data directive), the line number is missing, so all the other tokens are shifted by one
+		const missingLineNum = getInstructionByName(m[InstructionPart.LINE_NUM]) !== undefined || isDataDirective(m[InstructionPart.LINE_NUM]);
+
+		if (!missingLineNum) {
+			const oldLineNum = strictParseInt(m[InstructionPart.LINE_NUM]);
+			if (!isNaN(oldLineNum)) {
+				// Every address filled by a .fill directive moves with it, so jumps into the middle of the data are updated too
+				for (let j = 0; j < size; j++) lineNumMap.set(oldLineNum + j, newLineNum + j); // Later lines override earlier ones
+			}
+		}
+
+		instructions.push({ line: i, m, missingLineNum, newLineNum });
 	}
 
-	return numCodeLines; // The instruction number is the number of code lines
+	const edits: TextEdit[] = [];
+
+	// Update the line numbers and jump destinations
+	for (const { line, m, missingLineNum, newLineNum } of instructions) {
+		const indices = m.indices!;
+
+		if (missingLineNum) {
+			// Insert the line number before the instruction
+			edits.push(TextEdit.insert({ line, character: indices[InstructionPart.LINE_NUM][0] }, `${newLineNum} `));
+		} else if (strictParseInt(m[InstructionPart.LINE_NUM]) !== newLineNum) {
+			// Replace the line number
+			edits.push(TextEdit.replace(Range.create(line, indices[InstructionPart.LINE_NUM][0], line, indices[InstructionPart.LINE_NUM][1]), newLineNum.toString()));
+		}
+
+		const offset = missingLineNum ? -1 : 0; // If the line number is missing, each part of the instruction is in the previous group
+
+		if (!isJumpInstruction(m[InstructionPart.INSTRUCTION + offset])) continue; // Only jumps and calls refer to other line numbers
+
+		// Operand 3 is never a number, so we don't need to check it
+		for (const part of [InstructionPart.OPERAND1 + offset, InstructionPart.OPERAND2 + offset]) {
+			if (!m[part]) continue;
+
+			const newDestination = lineNumMap.get(strictParseInt(m[part]));
+
+			if (newDestination === undefined || newDestination === strictParseInt(m[part])) continue; // The destination didn't move
+
+			edits.push(TextEdit.replace(Range.create(line, indices[part][0], line, indices[part][1]), newDestination.toString()));
+		}
+	}
+
+	return edits;
 }
 
 /**
@@ -173,6 +276,22 @@ export function populateRegisters(completionList: CompletionList) {
 	});
 }
 
+/**
+ * Populates the completion list with the labels defined in the document
+ *
+ * @param completionList The completion list to populate
+ * @param document The text document to read the labels from
+ */
+export function populateLabels(completionList: CompletionList, document: TextDocument) {
+	for (const label of findLabels(getDocumentLines(document)).values()) {
+		completionList.items.push({
+			label: label.name,
+			labelDetails: { description: `Instruction ${label.address}` },
+			kind: CompletionItemKind.Reference
+		});
+	}
+}
+
 /**
  * Preprocesses a line of HMMM code by removing comments and trimming trailing whitespace
  * @param document The document to read the line from
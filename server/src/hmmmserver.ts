@@ -21,27 +21,29 @@ import {
 	TextDocumentSyncKind,
 	TextDocuments,
 	TextEdit,
-	createConnection,
-	uinteger
+	createConnection
 } from 'vscode-languageserver/node';
 import {
-	HMMMDetectedOperandType,
-	HMMMInstruction,
-	HMMMOperandType,
+	HMMMErrorType,
 	InstructionPart,
+	findLabels,
 	getInstructionByName,
+	getLabelDefinition,
 	instructionRegex,
 	isJumpInstruction,
 	preprocessLine,
+	resolveOperand,
 	strictParseInt,
-	validateOperand
+	validateCode
 } from '../../hmmm-spec/out/hmmm';
 import {
 	applyTrailingNewlineEdits,
+	getDocumentLines,
 	getExpectedInstructionNumber,
 	getRangeForLine,
+	getRenumberEdits,
 	getSelectedWord,
-	isInIndexRange, populateInstructions, populateLineNumber, populateRegisters,
+	isInIndexRange, populateInstructions, populateLabels, populateLineNumber, populateRegisters,
 	preprocessDocumentLine,
 } from './helperfunctions';
 
@@ -55,13 +57,20 @@ const connection = createConnection(ProposedFeatures.all);
 // document objects so we can read them later
 const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
 
+/**
+ * The kind of the code action which renumbers all the instructions in a program
+ */
+const renumberCodeActionKind = `${CodeActionKind.Source}.renumber`;
+
 // When the client connects, tell it what we can do
 connection.onInitialize((_params: InitializeParams) => {
 	return {
 		// Tell the client what we can do
 		capabilities: {
 			textDocumentSync: TextDocumentSyncKind.Incremental,
-			codeActionProvider: true,
+			codeActionProvider: {
+				codeActionKinds: [CodeActionKind.QuickFix, renumberCodeActionKind]
+			},
 			completionProvider: {
 				triggerCharacters: [' ', '\n']
 			},
@@ -81,23 +90,6 @@ documents.onDidChangeContent(change => {
 	validateTextDocument(change.document); // When the document changes, validate it
 });
 
-// Keep track of error causes, so we can suggest fixes
-type HMMMErrorType =
-	'invalid_line' |
-	'missing_line_num' |
-	'incorrect_line_num' |
-	'line_num_out_of_range' |
-	'invalid_operand' |
-	'invalid_register' |
-	'invalid_number' |
-	'unexpected_token' |
-	'missing_instruction' |
-	'invalid_instruction' |
-	'invalid_operand_type' |
-	'missing_operand' |
-	'too_many_operands' |
-	'jump_outside_cs';
-
 /**
  * Validates a text document and sends diagnostics to the client
  *
@@ -105,280 +97,15 @@ type HMMMErrorType =
  * @returns A promise that resolves when the validation is complete
  */
 async function validateTextDocument(textDocument: TextDocument): Promise<void> {
-	/*
-		Each line in the document should have the format: <line number> <instruction> <operand 1> <operand 2> <operand 3> # <comment>
-		The line number should be the number of the instruction in the file, starting at 0
-		The instruction should be one of the HMMM instructions
-		The operands should be either registers (r0-r15) or numbers (-128 to 127 or 0 to 255), matching the type expected by the instruction
-		The comment is optional and can be anything
-		Flag any lines that don't match this format
-	*/
-
-	const diagnostics: Diagnostic[] = [];
-
-	// Create an array of ranges which are the full line. This is used as a default in some cases if the regex fails to match
-	const defaultIndices = Array(7).fill([uinteger.MIN_VALUE, uinteger.MAX_VALUE]);
-
-	// Keep track of the number of lines that contain code so we can check if the line numbers are correct
-	let numCodeLines = 0;
-
-	// Keep track of all jump destinations, so we can check if they're in the code segment
-	// Array of [destination address, range of the argument that contains the destination address in the source file (so we can highlight it)]
-	const jumpDestinations: Array<[number, Range]> = [];
-
-	for (let lineIdx = 0; lineIdx < textDocument.lineCount; lineIdx++) {
-		// Get the line and remove any comments
-		const line = preprocessDocumentLine(textDocument, lineIdx);
-
-		if (!line.trim()) continue; // Skip empty lines
-
-		// Try to match the line to the instruction regex
-		let m: RegExpMatchArray | null;
-		if (!(m = instructionRegex.exec(line))) {
-			// If the regex fails to match, add an error diagnostic (The regex is pretty general, so this shouldn't happen)
-			diagnostics.push({
-				severity: DiagnosticSeverity.Error,
-				range: getRangeForLine(lineIdx),
-				message: 'Invalid line!',
-				source: 'HMMM Language Server',
-				data: 'invalid_line'
-			});
-			continue;
-		}
-
-		// Get the indices of the matched groups, if the regex fails to get the indices, use the default indices
-		let indices = m.indices ?? defaultIndices;
-		indices = indices.map(range => range ?? [uinteger.MIN_VALUE, uinteger.MAX_VALUE]); // Make sure all ranges are defined
-
-		const lineNum = strictParseInt(m[InstructionPart.LINE_NUM]); // Get the line number
-
-		if (isNaN(lineNum)) { // The line number is not a number
-			diagnostics.push({ // Add an error diagnostic
-				severity: DiagnosticSeverity.Error,
-				range: Range.create(lineIdx, indices[InstructionPart.LINE_NUM][0], lineIdx, indices[InstructionPart.LINE_NUM][0] + 1),
-				message: 'Missing line number',
-				source: 'HMMM Language Server',
-				data: 'missing_line_num'
-			});
-
-			// Assume the user just forgot a line number and the rest of the line is correct. Try to match the line with a line number of 0
-			m = instructionRegex.exec(`0 ${line}`) ?? m;
-			indices = m.indices ?? defaultIndices;
-		} else {
-			if (lineNum !== numCodeLines) { // The line number is not correct
-				diagnostics.push({ // Add an error diagnostic
-					severity: DiagnosticSeverity.Error,
-					range: Range.create(lineIdx, indices[InstructionPart.LINE_NUM][0], lineIdx, indices[InstructionPart.LINE_NUM][1]),
-					message: `Incorrect line number! Should be ${numCodeLines}`,
-					source: 'HMMM Language Server',
-					data: 'incorrect_line_num'
-				});
-			}
-			if(lineNum > 255) {
-				diagnostics.push({
-					severity: DiagnosticSeverity.Error,
-					range: Range.create(lineIdx, indices[InstructionPart.LINE_NUM][0], lineIdx, indices[InstructionPart.LINE_NUM][1]),
-					message: 'Line number is out of range! HMMM programs can only have 256 lines of code',
-					source: 'HMMM Language Server',
-					data: 'line_num_out_of_range'
-				});
-			}
-		}
-
-		numCodeLines++; // Increment the number of code lines
-
-		const operand1 = m[InstructionPart.OPERAND1];
-		const operand2 = m[InstructionPart.OPERAND2];
-		const operand3 = m[InstructionPart.OPERAND3];
-
-		/**
-		 * Checks if an operand is valid and reports errors if it isn't
-		 *
-		 * @param operandType The detected operand type
-		 * @param operandIdx The index of the operand in the regex match
-		 */
-		function reportOperandErrors(operandType: HMMMDetectedOperandType | undefined, operandIdx: number) {
-			if (operandType === undefined) { // The operand is invalid
-				diagnostics.push({
-					severity: DiagnosticSeverity.Error,
-					range: Range.create(lineIdx, indices[operandIdx][0], lineIdx, indices[operandIdx][1]),
-					message: 'Invalid operand!',
-					source: 'HMMM Language Server',
-					data: 'invalid_operand'
-				});
-			} else if (operandType === 'invalid_register') { // The operand is a register that is not r0-r15
-				diagnostics.push({
-					severity: DiagnosticSeverity.Error,
-					range: Range.create(lineIdx, indices[operandIdx][0], lineIdx, indices[operandIdx][1]),
-					message: 'Invalid register! HMMM only supports registers r0-r15',
-					source: 'HMMM Language Server',
-					data: 'invalid_register'
-				});
-			} else if (operandType === 'invalid_number') { // The operand is a number that is out of range
-				diagnostics.push({
-					severity: DiagnosticSeverity.Error,
-					range: Range.create(lineIdx, indices[operandIdx][0], lineIdx, indices[operandIdx][1]),
-					message: 'Invalid number! HMMM only supports numerical arguments from -128 to 127 (signed) or 0 to 255 (unsigned)',
-					source: 'HMMM Language Server',
-					data: 'invalid_number'
-				});
-			}
-		}
-
-		let operand1Type: HMMMDetectedOperandType | undefined = undefined;
-		let operand2Type: HMMMDetectedOperandType | undefined = undefined;
-		let operand3Type: HMMMDetectedOperandType | undefined = undefined;
-
-		// Validate the operands if they exist
-		if (operand1) {
-			operand1Type = validateOperand(operand1);
-			reportOperandErrors(operand1Type, InstructionPart.OPERAND1);
-		}
-		if (operand2) {
-			operand2Type = validateOperand(operand2);
-			reportOperandErrors(operand2Type, InstructionPart.OPERAND2);
-		}
-		if (operand3) {
-			operand3Type = validateOperand(operand3);
-			reportOperandErrors(operand3Type, InstructionPart.OPERAND3);
-		}
-
-		if (m[InstructionPart.OTHER]) { // There is an unexpected token at the end of the line
-			diagnostics.push({
-				severity: DiagnosticSeverity.Error,
-				range: Range.create(lineIdx, indices[InstructionPart.OTHER][0], lineIdx, indices[InstructionPart.OTHER][1]),
-				message: 'Unexpected token!',
-				source: 'HMMM Language Server',
-				data: 'unexpected_token'
-			});
-		}
-
-		const instruction = m[InstructionPart.INSTRUCTION];
-
-		if (!instruction) {
-			// There is a line number, but no instruction
-			diagnostics.push({
-				severity: DiagnosticSeverity.Error,
-				range: Range.create(lineIdx, Math.max(0, indices[InstructionPart.LINE_NUM][1] - 1), lineIdx, indices[InstructionPart.LINE_NUM][1]),
-				message: 'Expected instruction',
-				source: 'HMMM Language Server',
-				data: 'missing_instruction'
-			});
-			continue;
-		}
-
-		// Try to get the instruction from the name
-		const hmmmInstruction = getInstructionByName(instruction);
-
-		if (!hmmmInstruction) {
-			// The instruction is not valid
-			diagnostics.push({
-				severity: DiagnosticSeverity.Error,
-				range: Range.create(lineIdx, indices[InstructionPart.INSTRUCTION][0], lineIdx, indices[InstructionPart.INSTRUCTION][1]),
-				message: 'Unknown instruction',
-				source: 'HMMM Language Server',
-				data: 'invalid_instruction'
-			});
-			continue;
-		}
-
-		// Calculate the number of expected arguments for the given instruction
-		const numExpectedArgs = [hmmmInstruction.operand1, hmmmInstruction.operand2, hmmmInstruction.operand3].filter(operand => operand !== undefined).length;
-
-		/**
-		 * Checks if an operand is valid for the given instruction and reports errors if it isn't
-		 *
-		 * @param operand The operand to check
-		 * @param operandType The detected operand type
-		 * @param operandIdx The index of the operand in the regex match
-		 * @param instruction The instruction to check against
-		 * @param expectedType The expected operand type
-		 *
-		 * @returns true if the operand is missing and the code should stop checking for errors, false otherwise
-		 */
-		function reportOperandTypeMismatchErrors(operand: string, operandType: HMMMDetectedOperandType | undefined, operandIdx: number, instruction: HMMMInstruction, expectedType: HMMMOperandType | undefined): boolean {
-			if (expectedType) { // The instruction expects an operand
-				if (operand) { // An operand was provided
-					switch (expectedType) {
-						case 'register':
-							if (operandType !== 'register' && operandType !== 'r0' && operandType !== 'invalid_register') {
-								diagnostics.push({ // The instruction expects a register, but the operand is not a register
-									severity: DiagnosticSeverity.Error,
-									range: Range.create(lineIdx, indices[operandIdx][0], lineIdx, indices[operandIdx][1]),
-									message: `${instruction.name} expects a register here`,
-									source: 'HMMM Language Server',
-									data: 'invalid_operand_type'
-								});
-							}
-							break;
-						case 'signed_number':
-							if (operandType !== 'signed_number' && operandType !== 'number') {
-								diagnostics.push({ // The instruction expects a signed number, but the operand is not a signed number
-									severity: DiagnosticSeverity.Error,
-									range: Range.create(lineIdx, indices[operandIdx][0], lineIdx, indices[operandIdx][1]),
-									message: `${instruction.name} expects a signed number (-128 to 127) here`,
-									source: 'HMMM Language Server',
-									data: 'invalid_operand_type'
-								});
-							}
-							break;
-						case 'unsigned_number':
-							if (operandType !== 'unsigned_number' && operandType !== 'number') {
-								diagnostics.push({ // The instruction expects an unsigned number, but the operand is not an unsigned number
-									severity: DiagnosticSeverity.Error,
-									range: Range.create(lineIdx, indices[operandIdx][0], lineIdx, indices[operandIdx][1]),
-									message: `${instruction.name} expects an unsigned number (0 to 255) here`,
-									source: 'HMMM Language Server',
-									data: 'invalid_operand_type'
-								});
-							} else if(isJumpInstruction(instruction.name)) {
-								// The instruction is a jump or call instruction, so add the destination to the
-								// list of jump destinations so we can check if it's in the code segment later
-								// Jump destinations are always unsigned numbers
-								jumpDestinations.push([strictParseInt(operand), Range.create(lineIdx, indices[operandIdx][0], lineIdx, indices[operandIdx][1])]);
-							}
-							break;
-					}
-				} else {
-					diagnostics.push({ // The instruction expects an operand, but none was provided
-						severity: DiagnosticSeverity.Error,
-						range: Range.create(lineIdx, indices[InstructionPart.INSTRUCTION][0], lineIdx, indices[InstructionPart.INSTRUCTION][1]),
-						message: `${instruction.name} expects ${numExpectedArgs} argument${numExpectedArgs === 1 ? '' : 's'}`,
-						source: 'HMMM Language Server',
-						data: 'missing_operand'
-					});
-					return true; // There are no more operands to check (because this one was missing), so stop checking for errors
-				}
-			} else if (operand) {
-				diagnostics.push({ // The instruction does not expect an operand, but one was provided
-					severity: DiagnosticSeverity.Error,
-					range: Range.create(lineIdx, indices[operandIdx][0], lineIdx, indices[operandIdx][1]),
-					message: `${instruction.name} only expects ${numExpectedArgs} argument${numExpectedArgs === 1 ? '' : 's'}`,
-					source: 'HMMM Language Server',
-					data: 'too_many_operands'
-				});
-			}
-			return false;
-		}
-
-		// Check if the operands are valid for the given instruction
-		if (reportOperandTypeMismatchErrors(operand1, operand1Type, InstructionPart.OPERAND1, hmmmInstruction, hmmmInstruction.operand1)) continue;
-		if (reportOperandTypeMismatchErrors(operand2, operand2Type, InstructionPart.OPERAND2, hmmmInstruction, hmmmInstruction.operand2)) continue;
-		if (reportOperandTypeMismatchErrors(operand3, operand3Type, InstructionPart.OPERAND3, hmmmInstruction, hmmmInstruction.operand3)) continue;
-
-	}
-
-	for(const [destination, range] of jumpDestinations) {
-		if(destination >= numCodeLines) {
-			diagnostics.push({
-				severity: DiagnosticSeverity.Warning,
-				range,
-				message: 'Jump destination is outside code segment',
-				source: 'HMMM Language Server',
-				data: 'jump_outside_cs'
-			});
-		}
-	}
+	// Validate the code using the same rules as the assembler and convert each error into a diagnostic
+	// The error code is stored in the diagnostic's data, so we can suggest fixes for it later
+	const diagnostics: Diagnostic[] = validateCode(getDocumentLines(textDocument)).map(error => ({
+		severity: error.severity === 'error' ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning,
+		range: Range.create(error.line, error.startColumn, error.line, error.endColumn),
+		message: error.message,
+		source: 'HMMM Language Server',
+		data: error.code
+	}));
 
 	// Send the diagnostics to the client
 	connection.sendDiagnostics({ uri: textDocument.uri, diagnostics });
@@ -388,9 +115,36 @@ connection.onCodeAction(
 	(params: CodeActionParams): CodeAction[] => {
 		/*
 			Suggest fixes for errors. Currently, this is only line numbers, but it could be expanded to other errors in the future (e.g. n vs r variants of instructions)
+			Additionally, offer to renumber the entire program (updating any jumps to moved lines)
 		*/
 
 		const actions: CodeAction[] = [];
+
+		/**
+		 * Creates a code action which renumbers the entire program
+		 * @param kind The kind of the code action
+		 * @param diagnostics The diagnostics which the code action fixes
+		 * @returns The code action or undefined if the program does not need to be renumbered
+		 */
+		function createRenumberAction(kind: string, diagnostics?: Diagnostic[]): CodeAction | undefined {
+			const document = documents.get(params.textDocument.uri);
+			if (!document) return undefined; // We can't read the document, so just return
+
+			const edits = getRenumberEdits(document);
+			if (edits.length === 0) return undefined; // The program is already numbered correctly
+
+			return {
+				title: 'Renumber Program',
+				kind,
+				diagnostics,
+				edit: {
+					changes: {
+						[params.textDocument.uri]: edits
+					}
+				}
+			};
+		}
+
 		params.context.diagnostics.forEach(diagnostic => {
 			if (diagnostic.source !== 'HMMM Language Server') return; // Only handle diagnostics from the HMMM Language Server
 
@@ -417,6 +171,10 @@ connection.onCodeAction(
 							}
 						}
 					});
+
+					// Fixing one line number will probably just cause the next line to be incorrect, so also suggest renumbering everything
+					const renumberAction = createRenumberAction(CodeActionKind.QuickFix, [diagnostic]);
+					if (renumberAction) actions.push(renumberAction);
 					break;
 				}
 				case 'missing_line_num': // The line number is missing, so suggest adding it
@@ -464,6 +222,13 @@ connection.onCodeAction(
 				}
 			}
 		});
+
+		// Offer the renumber action as a source action if the client asked for it (or didn't ask for anything specific)
+		if (!params.context.only || params.context.only.some(kind => renumberCodeActionKind.startsWith(kind))) {
+			const renumberAction = createRenumberAction(renumberCodeActionKind);
+			if (renumberAction) actions.push(renumberAction);
+		}
+
 		return actions;
 	}
 );
@@ -493,6 +258,8 @@ connection.onCompletion(
 
 		const line = preprocessDocumentLine(document, params.position.line);
 
+		if (getLabelDefinition(line) !== undefined) return completionList; // The line defines a label, so don't suggest anything
+
 		if (!line.trim()) {
 			// The line is empty, so suggest the next line number or an instruction
 			populateLineNumber(completionList, params.position.line, document);
@@ -553,6 +320,16 @@ connection.onCompletion(
 			populateRegisters(completionList);
 			return completionList;
 		}
+		if ((!m[InstructionPart.OPERAND1] || isInIndexRange(position, InstructionPart.OPERAND1, indices)) && instruction.operand1 === 'unsigned_number') {
+			// The instruction expects an address, so suggest a label
+			populateLabels(completionList, document);
+			return completionList;
+		}
+		if ((!m[InstructionPart.OPERAND2] || isInIndexRange(position, InstructionPart.OPERAND2, indices)) && instruction.operand2 === 'unsigned_number') {
+			// The instruction expects an address, so suggest a label
+			populateLabels(completionList, document);
+			return completionList;
+		}
 
 		// Couldn't find anything to suggest, so just return an empty list
 		return completionList;
@@ -563,6 +340,7 @@ connection.onDefinition(
 	(params: DefinitionParams): Definition => {
 		/*
 			If the user tries to go to the definition of a line number in a jump or call instruction, return all lines with a matching line number
+			If the user tries to go to the definition of a label used as an operand, return the line which defines the label
 		*/
 
 		// Get the document
@@ -580,14 +358,19 @@ connection.onDefinition(
 
 		const word = getSelectedWord(document, params.position)[0]; // Get the word at the cursor
 
+		// Try to interpret the line as an instruction
+		let m: RegExpMatchArray | null;
+		if (!(m = instructionRegex.exec(preprocessLine(line)))) return []; // The line is not an instruction, so don't return anything
+
+		if (word === m[InstructionPart.OPERAND1] || word === m[InstructionPart.OPERAND2]) { // The word is an operand, so check if it refers to a label
+			const label = findLabels(getDocumentLines(document)).get(word);
+			if (label) return [{ uri: params.textDocument.uri, range: getRangeForLine(label.line) }]; // Return the line that defines the label
+		}
+
 		const lineNum = strictParseInt(word); // Try to interpret the word as a line number
 
 		if (isNaN(lineNum) || lineNum < 0) return []; // The word is not a valid line number, so don't return anything
 
-		// Try to interpret the line as an instruction
-		let m: RegExpMatchArray | null;
-		if (!(m = instructionRegex.exec(line))) return []; // The line is not an instruction, so don't return anything
-
 		const instruction = m[InstructionPart.INSTRUCTION];
 
 		if (!isJumpInstruction(instruction)) return []; // The instruction is not a jump or call; the numbers are meaningless, so don't return anything
@@ -598,6 +381,7 @@ connection.onDefinition(
 
 		for (let i = 0; i < document.lineCount; i++) { // Loop through all the lines in the document
 			// Get the line and remove anything that's not an instruction number
+			// (Label definitions are not instructions, but they will fail to parse as a number anyway)
 			const line = preprocessDocumentLine(document, i).trim().split(/\s+/)[0];
 
 			if (!line) continue; // Skip empty lines
@@ -641,7 +425,7 @@ connection.onDocumentFormatting(
 			// Get the line and remove any comments and leading/trailing whitespace
 			const line = preprocessDocumentLine(document, i).trim();
 
-			if (!line) continue; // Skip empty lines
+			if (!line || getLabelDefinition(line) !== undefined) continue; // Skip empty lines and label definitions
 
 			// Try to match the line to the instruction regex
 			let m: RegExpMatchArray | null;
@@ -682,7 +466,7 @@ connection.onDocumentFormatting(
 			const line = originalLine.trim(); // Remove any leading/trailing whitespace
 			const commentStartPos = line.indexOf('#');
 
-			if (commentStartPos == 0 || !line) {
+			if (commentStartPos == 0 || !line || getLabelDefinition(line) !== undefined) {
 				// The line does not contain any instructions, so remove any leading/trailing whitespace
 				edits.push(TextEdit.replace(getRangeForLine(i), line));
 				continue;
@@ -838,6 +622,18 @@ connection.onHover(
 			};
 		}
 
+		const label = findLabels(getDocumentLines(document)).get(word[0].replace(/:$/, '')); // Try to interpret the word as a label (or a label definition)
+
+		if (label) { // Show the address that the label refers to
+			return {
+				contents: {
+					kind: MarkupKind.Markdown,
+					value: `Label (Instruction ${label.address})`
+				},
+				range: word[1]
+			};
+		}
+
 		return { contents: [] }; // We couldn't interpret the word, so don't return anything
 	}
 );
@@ -845,7 +641,7 @@ connection.onHover(
 connection.onReferences(
 	(params: ReferenceParams): Location[] | undefined => {
 		/*
-			Return all lines which jump to the line at the cursor
+			Return all lines which jump to the line (or label) at the cursor
 		*/
 
 		// Get the document
@@ -859,16 +655,31 @@ connection.onReferences(
 		const commentPos = line.indexOf('#');
 		if (commentPos != -1 && params.position.character >= commentPos) return undefined; // The cursor is in a comment, so don't return anything
 
-		// We only support selecting the line number
+		const labels = findLabels(getDocumentLines(document));
 
-		const spacePos = line.indexOf(' ');
-		if (spacePos != -1 && params.position.character > spacePos) return undefined; // The cursor is after the instruction, so don't return anything
+		// The address of the instruction we're finding references to
+		let targetAddress: number;
+		// The name of the label we're finding references to (if the cursor is on a label definition)
+		let targetLabel: string | undefined = undefined;
 
-		const word = getSelectedWord(document, params.position); // Get the word at the cursor
+		const definedLabel = getLabelDefinition(line);
+
+		if (definedLabel !== undefined) {
+			// The line defines a label, so find all references to the label (and the instruction it refers to)
+			targetLabel = definedLabel;
+			targetAddress = labels.get(definedLabel)!.address;
+		} else {
+			// Otherwise, we only support selecting the line number
+
+			const spacePos = line.indexOf(' ');
+			if (spacePos != -1 && params.position.character > spacePos) return undefined; // The cursor is after the instruction, so don't return anything
 
-		const lineNum = strictParseInt(word[0]); // Try to interpret the word as a line number
+			const word = getSelectedWord(document, params.position); // Get the word at the cursor
 
-		if (isNaN(lineNum) || lineNum < 0) return undefined; // The word is not a valid line number, so don't return anything
+			targetAddress = strictParseInt(word[0]); // Try to interpret the word as a line number
+
+			if (isNaN(targetAddress) || targetAddress < 0) return undefined; // The word is not a valid line number, so don't return anything
+		}
 
 		// Find all lines which jump to the given line number
 
@@ -878,14 +689,14 @@ connection.onReferences(
 			// Get the line and remove anything that's not an instruction number
 			const line = preprocessDocumentLine(document, i);
 
-			if (!line) continue; // Skip empty lines
+			if (!line || getLabelDefinition(line) !== undefined) continue; // Skip empty lines and label definitions
 
 			// Try to parse the instruction number
 			let m: RegExpMatchArray | null;
 			if (!(m = instructionRegex.exec(line))) continue;
 
-			if (!m.indices) { // The regex failed to get the indices, so just check if the line contains the line number
-				if (line.slice(line.indexOf(' ')).includes(lineNum.toString())) {
+			if (!m.indices) { // The regex failed to get the indices, so just check if the line contains the line number (or label)
+				if (line.slice(line.indexOf(' ')).includes(targetLabel ?? targetAddress.toString())) {
 					locations.push({
 						uri: params.textDocument.uri,
 						range: getRangeForLine(i)
@@ -894,31 +705,28 @@ connection.onReferences(
 				continue;
 			}
 
-			// Check if the instruction is a jump or call
-			if (!isJumpInstruction(m[InstructionPart.INSTRUCTION])) continue; // It's not :(
-
-			// If it is, check if either of the operands are the line number
-			if (m[InstructionPart.OPERAND1]) {
-				const operand1 = m[InstructionPart.OPERAND1];
-				if (strictParseInt(operand1) === lineNum) {
-					locations.push({
-						uri: params.textDocument.uri,
-						range: getRangeForLine(i)
-					});
-				}
-			}
+			const isJump = isJumpInstruction(m[InstructionPart.INSTRUCTION]);
 
-			if (m[InstructionPart.OPERAND2]) {
-				const operand2 = m[InstructionPart.OPERAND2];
-				if (strictParseInt(operand2) === lineNum) {
-					locations.push({
-						uri: params.textDocument.uri,
-						range: getRangeForLine(i)
-					});
-				}
+			/**
+			 * Checks if an operand refers to the target line
+			 * @param operand The operand to check
+			 * @returns true if the operand refers to the target line, false otherwise
+			 */
+			function refersToTarget(operand: string | undefined): boolean {
+				if (!operand) return false;
+				if (targetLabel !== undefined && operand === targetLabel) return true; // Any instruction can refer to a label by name
+				if (!isJump) return false; // Otherwise, only jumps and calls refer to other instructions
+				return resolveOperand(operand, labels) === targetAddress; // The jump destination is either a label or a line number
 			}
 
+			// Check if either of the operands refers to the target line
 			// Operand 3 is never a number, so we don't need to check it
+			if (refersToTarget(m[InstructionPart.OPERAND1]) || refersToTarget(m[InstructionPart.OPERAND2])) {
+				locations.push({
+					uri: params.textDocument.uri,
+					range: getRangeForLine(i)
+				});
+			}
 		}
 
 		return locations;
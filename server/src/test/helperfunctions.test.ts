@@ -0,0 +1,87 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getRenumberEdits } from '../helperfunctions';
+
+/**
+ * Renumbers a HMMM program
+ * @param lines The lines of the program
+ * @returns The lines of the renumbered program
+ */
+function renumber(lines: string[]): string[] {
+	const document = TextDocument.create('file:///program.hmmm', 'hmmm', 1, lines.join('\n'));
+	return TextDocument.applyEdits(document, getRenumberEdits(document)).split('\n');
+}
+
+describe('getRenumberEdits', () => {
+	it('numbers instructions sequentially and updates jumps to moved lines', () => {
+		assert.deepEqual(renumber([
+			'0 setn r1 5',
+			'setn r2 1',
+			'1 jnezn r1 1 # Jumps to the last line numbered 1',
+			'1 addn r1 -1',
+			'5 jumpn 1',
+			'6 halt'
+		]), [
+			'0 setn r1 5',
+			'1 setn r2 1',
+			'2 jnezn r1 3 # Jumps to the last line numbered 1',
+			'3 addn r1 -1',
+			'4 jumpn 3',
+			'5 halt'
+		]);
+	});
+
+	it('leaves jumps to labels alone', () => {
+		assert.deepEqual(renumber([
+			'0 setn r1 3',
+			'setn r2 1',
+			'loop:',
+			'1 addn r1 -1',
+			'2 jnezn r1 loop',
+			'3 halt'
+		]), [
+			'0 setn r1 3',
+			'1 setn r2 1',
+			'loop:',
+			'2 addn r1 -1',
+			'3 jnezn r1 loop',
+			'4 halt'
+		]);
+	});
+
+	it('skips the addresses filled by data directives and leaves labels alone', () => {
+		assert.deepEqual(renumber([
+			'0 jumpn 9',
+			'1 .fill 3 0',
+			'end:',
+			'2 jumpn end',
+			'9 halt'
+		]), [
+			'0 jumpn 5',
+			'1 .fill 3 0',
+			'end:',
+			'4 jumpn end',
+			'5 halt'
+		]);
+	});
+
+	it('updates jumps into the middle of the addresses filled by data directives', () => {
+		assert.deepEqual(renumber([
+			'0 jumpn 3',
+			'setn r1 1',
+			'1 .fill 3 0',
+			'4 halt'
+		]), [
+			'0 jumpn 4',
+			'1 setn r1 1',
+			'2 .fill 3 0',
+			'5 halt'
+		]);
+	});
+
+	it('makes no edits to a correctly numbered program', () => {
+		const document = TextDocument.create('file:///program.hmmm', 'hmmm', 1, '0 setn r1 1\n1 jumpn 0');
+		assert.deepEqual(getRenumberEdits(document), []);
+	});
+});